@@ -0,0 +1,244 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { decodeFunctionData, toEventSelector, toFunctionSelector, toFunctionSignature, type Abi, type AbiEvent, type AbiFunction } from "viem";
+import { builtinContracts, getBuiltinContract } from "./builtins.js";
+import { decodeEventLog, normalizeAddress, parseAbiInput, toJsonSafe } from "./utils.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export type AbiSource = "argument" | "registered" | "builtin" | "signatures";
+
+export interface RegisteredAbi {
+    address: string;
+    name: string | null;
+    abi: Abi;
+    registeredAt: string;
+}
+
+export interface DecodedCall {
+    source: AbiSource;
+    contract: string | null;
+    function: string;
+    signature: string;
+    args: Record<string, unknown>;
+}
+
+export interface DecodedEvent {
+    source: AbiSource;
+    contract: string | null;
+    event: string;
+    args: unknown;
+}
+
+// Common function and event signatures, used when the contract ABI is unknown.
+const signatures = parseAbiInput([
+    // VIP-180 / ERC-20
+    "function transfer(address to, uint256 amount) returns (bool)",
+    "function transferFrom(address from, address to, uint256 amount) returns (bool)",
+    "function approve(address spender, uint256 amount) returns (bool)",
+    "function increaseAllowance(address spender, uint256 addedValue) returns (bool)",
+    "function decreaseAllowance(address spender, uint256 subtractedValue) returns (bool)",
+    "function mint(address to, uint256 amount)",
+    "function burn(uint256 amount)",
+    "function burnFrom(address account, uint256 amount)",
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
+    "event Approval(address indexed owner, address indexed spender, uint256 value)",
+    // ERC-721
+    "function safeTransferFrom(address from, address to, uint256 tokenId)",
+    "function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+    "function setApprovalForAll(address operator, bool approved)",
+    "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+    "event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)",
+    "event ApprovalForAll(address indexed owner, address indexed operator, bool approved)",
+    // ERC-1155
+    "function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)",
+    "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)",
+    "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+    "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+    // Wrapped VET
+    "function deposit()",
+    "function withdraw(uint256 amount)",
+    "event Deposit(address indexed owner, uint256 amount)",
+    "event Withdrawal(address indexed owner, uint256 amount)",
+    // Ownership and access control
+    "function transferOwnership(address newOwner)",
+    "function renounceOwnership()",
+    "function grantRole(bytes32 role, address account)",
+    "function revokeRole(bytes32 role, address account)",
+    "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+    "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+    "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+    // Uniswap V2 style DEX routers and pairs
+    "function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)",
+    "function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline) returns (uint256[] amounts)",
+    "function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable returns (uint256[] amounts)",
+    "function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)",
+    "function swapExactVETForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable returns (uint256[] amounts)",
+    "function swapExactTokensForVET(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)",
+    "function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) returns (uint256 amountA, uint256 amountB, uint256 liquidity)",
+    "function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) returns (uint256 amountA, uint256 amountB)",
+    "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+    "event Sync(uint112 reserve0, uint112 reserve1)",
+    "event Mint(address indexed sender, uint256 amount0, uint256 amount1)",
+    "event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)",
+    // Batching
+    "function multicall(bytes[] data) returns (bytes[] results)",
+]);
+
+const functionsBySelector = new Map<string, AbiFunction[]>();
+const eventsByTopic = new Map<string, AbiEvent[]>();
+
+for (const item of [...signatures, ...builtinContracts.prototype.abi]) {
+    if (item.type === "function") {
+        const selector = toFunctionSelector(item);
+        functionsBySelector.set(selector, [...functionsBySelector.get(selector) ?? [], item]);
+    } else if (item.type === "event") {
+        const topic = toEventSelector(item);
+        eventsByTopic.set(topic, [...eventsByTopic.get(topic) ?? [], item]);
+    }
+}
+
+let registered: Map<string, RegisteredAbi> | undefined;
+
+export function getAbiRegistryFile(): string {
+    return process.env.ABI_REGISTRY_FILE || path.resolve(__dirname, "../abi-registry.json");
+}
+
+function loadRegistered(): Map<string, RegisteredAbi> {
+    if (registered) return registered;
+
+    registered = new Map();
+
+    const registryFile = getAbiRegistryFile();
+    if (!fs.existsSync(registryFile)) return registered;
+
+    try {
+        const entries = JSON.parse(fs.readFileSync(registryFile, "utf8")) as RegisteredAbi[];
+
+        for (const entry of entries) {
+            registered.set(normalizeAddress(entry.address), { ...entry, address: normalizeAddress(entry.address) });
+        }
+    } catch (err) {
+        console.error("Error loading ABI registry:", err);
+    }
+
+    return registered;
+}
+
+/**
+ * Registers the ABI of a contract, replacing any previous one, and saves the
+ * registry to ABI_REGISTRY_FILE.
+ */
+export function registerAbi(address: string, abi: unknown, name?: string): RegisteredAbi {
+    const entries = loadRegistered();
+    const entry: RegisteredAbi = {
+        address: normalizeAddress(address),
+        name: name ?? null,
+        abi: parseAbiInput(abi),
+        registeredAt: new Date().toISOString(),
+    };
+
+    entries.set(entry.address, entry);
+
+    const registryFile = getAbiRegistryFile();
+
+    fs.mkdirSync(path.dirname(registryFile), { recursive: true });
+    fs.writeFileSync(registryFile, JSON.stringify([...entries.values()], null, 2));
+
+    return entry;
+}
+
+export function getRegisteredAbi(address: string): RegisteredAbi | undefined {
+    return loadRegistered().get(normalizeAddress(address));
+}
+
+
+/**
+ * ABIs that may describe a contract, by priority: the caller-supplied ABI,
+ * the registered ABI, then the built-in contract ABI.
+ */
+function contractAbis(address: string | null | undefined, userAbi?: Abi): Array<{ source: AbiSource, contract: string | null, abi: Abi }> {
+    const registeredAbi = address ? getRegisteredAbi(address) : undefined;
+    const builtin = address ? getBuiltinContract(address) : undefined;
+
+    return [
+        ...(userAbi ? [{ source: "argument" as const, contract: null, abi: userAbi }] : []),
+        ...(registeredAbi ? [{ source: "registered" as const, contract: registeredAbi.name, abi: registeredAbi.abi }] : []),
+        ...(builtin ? [{ source: "builtin" as const, contract: builtin.name, abi: builtin.abi }] : []),
+    ];
+}
+
+function namedArgs(item: AbiFunction, args: readonly unknown[] | undefined): Record<string, unknown> {
+    return Object.fromEntries(item.inputs.map((input, index) => [input.name || `arg${index}`, toJsonSafe(args?.[index])]));
+}
+
+/**
+ * Decodes clause data with the contract ABIs, then the common signature
+ * table. Returns null for plain transfers and unknown functions.
+ */
+export function decodeCalldata(data: string | null | undefined, to?: string | null, userAbi?: Abi): DecodedCall | null {
+    if (!data || data.length < 10) return null;
+
+    const candidates = [
+        ...contractAbis(to, userAbi),
+        ...(functionsBySelector.get(data.slice(0, 10).toLowerCase()) ?? [])
+            .map((item) => ({ source: "signatures" as const, contract: null, abi: [item] as Abi })),
+    ];
+
+    for (const { source, contract, abi } of candidates) {
+        try {
+            const { functionName, args } = decodeFunctionData({ abi, data: data as `0x${string}` });
+            const item = abi.find((entry): entry is AbiFunction =>
+                entry.type === "function" && entry.name === functionName && toFunctionSelector(entry) === data.slice(0, 10).toLowerCase());
+
+            if (!item) continue;
+
+            return { source, contract, function: functionName, signature: toFunctionSignature(item), args: namedArgs(item, args) };
+        } catch {
+            // Not this ABI: try the next one.
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Decodes an event with the contract ABIs, then the Prototype events and the
+ * common signature table.
+ */
+export function decodeEvent(log: { address?: string, topics: string[], data: string }, userAbi?: Abi): DecodedEvent | null {
+    const candidates = [
+        ...contractAbis(log.address, userAbi),
+        ...(eventsByTopic.get(log.topics[0]?.toLowerCase() ?? "") ?? [])
+            .map((item) => ({ source: "signatures" as const, contract: null, abi: [item] as Abi })),
+    ];
+
+    for (const { source, contract, abi } of candidates) {
+        const decoded = decodeEventLog(abi, log);
+        if (decoded) return { source, contract, ...decoded };
+    }
+
+    return null;
+}
+
+/**
+ * Adds a `decoded` view to the clauses of a transaction and, for expanded
+ * block transactions, to the events of its outputs.
+ */
+export function decorateTransaction<T extends Record<string, any>>(transaction: T): T {
+    return {
+        ...transaction,
+        ...(Array.isArray(transaction.clauses)
+            ? { clauses: transaction.clauses.map((clause: { to: string | null, data: string }) => ({ ...clause, decoded: decodeCalldata(clause.data, clause.to) })) }
+            : {}),
+        ...(Array.isArray(transaction.outputs)
+            ? {
+                outputs: transaction.outputs.map((output: { events?: Array<{ address: string, topics: string[], data: string }> }) => ({
+                    ...output,
+                    ...(output.events ? { events: output.events.map((event) => ({ ...event, decoded: decodeEvent(event) })) } : {}),
+                })),
+            }
+            : {}),
+    };
+}
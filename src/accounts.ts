@@ -0,0 +1,180 @@
+import fs from "node:fs";
+import { Address, HDKey, Hex, keystore, type Keystore } from "@vechain/sdk-core";
+import z from "zod";
+import { ToolError } from "./errors.js";
+
+export interface SignerAccount {
+    name: string;
+    address: string;
+    source: "secret-key" | "keystore" | "mnemonic";
+    derivationPath?: string;
+    secretKey: Uint8Array;
+}
+
+const accountDefinitionSchema = z.union([
+    z.object({
+        keystore: z.string().min(1),
+        passwordEnv: z.string().min(1).optional(),
+        passwordFile: z.string().min(1).optional(),
+    }),
+    z.object({
+        mnemonicEnv: z.string().min(1).optional(),
+        mnemonicFile: z.string().min(1).optional(),
+        index: z.number().int().min(0).default(0),
+    }),
+    z.object({
+        secretKeyEnv: z.string().min(1),
+    }),
+]);
+
+let accountsPromise: Promise<Map<string, SignerAccount>> | undefined;
+
+function readSecret(env: string | undefined, file: string | undefined): string | undefined {
+    if (file) return fs.readFileSync(file, "utf8").trim();
+    if (env) return process.env[env]?.trim() || undefined;
+    return undefined;
+}
+
+function fromSecretKey(name: string, secretKey: string): SignerAccount {
+    const bytes = Hex.of(secretKey).bytes;
+    return { name, address: Address.ofPrivateKey(bytes).toString(), source: "secret-key", secretKey: bytes };
+}
+
+async function fromKeystore(name: string, file: string, password: string | undefined): Promise<SignerAccount> {
+    if (password === undefined) {
+        throw new ToolError("MISSING_KEY", `No password for the keystore of account "${name}"`);
+    }
+
+    const decrypted = await keystore.decrypt(JSON.parse(fs.readFileSync(file, "utf8")) as Keystore, password);
+    const bytes = Hex.of(decrypted.privateKey).bytes;
+
+    return { name, address: Address.ofPrivateKey(bytes).toString(), source: "keystore", secretKey: bytes };
+}
+
+function fromMnemonic(name: string, mnemonic: string, index: number): SignerAccount {
+    const derivationPath = `${HDKey.VET_DERIVATION_PATH}/${index}`;
+    const secretKey = HDKey.fromMnemonic(mnemonic.split(/\s+/), derivationPath).privateKey;
+
+    if (!secretKey) {
+        throw new Error(`Cannot derive a private key at ${derivationPath}`);
+    }
+
+    return { name, address: Address.ofPrivateKey(secretKey).toString(), source: "mnemonic", derivationPath, secretKey };
+}
+
+async function loadAccounts(): Promise<Map<string, SignerAccount>> {
+    const accounts = new Map<string, SignerAccount>();
+
+    const add = async (name: string, load: () => SignerAccount | Promise<SignerAccount>) => {
+        try {
+            accounts.set(name, await load());
+        } catch (err) {
+            console.error(`Ignoring account "${name}":`, (err as Error)?.message ?? err);
+        }
+    };
+
+    // The "default" account: an encrypted keystore, or the legacy plaintext key.
+    if (process.env.AGENT_KEYSTORE_FILE) {
+        await add("default", () => fromKeystore(
+            "default",
+            process.env.AGENT_KEYSTORE_FILE!,
+            readSecret("AGENT_KEYSTORE_PASSWORD", process.env.AGENT_KEYSTORE_PASSWORD_FILE),
+        ));
+    } else if (process.env.AGENT_SECRET_KEY) {
+        await add("default", () => fromSecretKey("default", process.env.AGENT_SECRET_KEY!));
+    }
+
+    const mnemonic = readSecret("AGENT_MNEMONIC", process.env.AGENT_MNEMONIC_FILE);
+
+    if (mnemonic) {
+        const count = Number(process.env.AGENT_MNEMONIC_ACCOUNTS || 1);
+
+        for (let index = 0; index < count; index++) {
+            await add(`hd-${index}`, () => fromMnemonic(`hd-${index}`, mnemonic, index));
+        }
+    }
+
+    if (process.env.AGENT_ACCOUNTS_FILE) {
+        let definitions: Record<string, unknown> = {};
+
+        try {
+            definitions = JSON.parse(fs.readFileSync(process.env.AGENT_ACCOUNTS_FILE, "utf8"));
+        } catch (err) {
+            console.error("Error loading accounts file:", err);
+        }
+
+        for (const [name, definition] of Object.entries(definitions)) {
+            const parsed = accountDefinitionSchema.safeParse(definition);
+
+            if (!parsed.success) {
+                console.error(`Ignoring account "${name}": ${parsed.error.message}`);
+                continue;
+            }
+
+            const account = parsed.data;
+
+            if ("keystore" in account) {
+                await add(name, () => fromKeystore(name, account.keystore, readSecret(account.passwordEnv, account.passwordFile)));
+            } else if ("secretKeyEnv" in account) {
+                await add(name, () => fromSecretKey(name, readSecret(account.secretKeyEnv, undefined) ?? ""));
+            } else {
+                await add(name, () => {
+                    const words = readSecret(account.mnemonicEnv, account.mnemonicFile);
+                    if (!words) throw new Error("mnemonicEnv or mnemonicFile is required");
+                    return fromMnemonic(name, words, account.index);
+                });
+            }
+        }
+    }
+
+    return accounts;
+}
+
+/**
+ * Signing accounts, keyed by name: `default` (AGENT_KEYSTORE_FILE or
+ * AGENT_SECRET_KEY), `hd-<n>` (AGENT_MNEMONIC) and the named accounts of
+ * AGENT_ACCOUNTS_FILE. Keystores are decrypted once, on first use.
+ */
+export function getAccounts(): Promise<Map<string, SignerAccount>> {
+    accountsPromise ??= loadAccounts();
+    return accountsPromise;
+}
+
+export async function getDefaultAccountName(): Promise<string | undefined> {
+    const accounts = await getAccounts();
+    const configured = process.env.AGENT_DEFAULT_ACCOUNT;
+
+    if (configured) return configured;
+    if (accounts.has("default")) return "default";
+    return accounts.keys().next().value;
+}
+
+export async function getAccount(name?: string): Promise<SignerAccount> {
+    const accounts = await getAccounts();
+    const accountName = name ?? await getDefaultAccountName();
+
+    if (accountName === undefined) {
+        throw new ToolError("MISSING_KEY", "No signing account configured: set AGENT_KEYSTORE_FILE, AGENT_SECRET_KEY, AGENT_MNEMONIC or AGENT_ACCOUNTS_FILE to use this tool.");
+    }
+
+    const account = accounts.get(accountName);
+
+    if (!account) {
+        throw new ToolError("INVALID_INPUT", `Unknown account "${accountName}". Available: ${[...accounts.keys()].join(", ") || "none"}`);
+    }
+
+    return account;
+}
+
+export const accountSchema = z
+    .string()
+    .optional()
+    .describe("Name of the signing account (see list_accounts). Defaults to the default account");
+
+/**
+ * Read-only (watch-only) mode: forced with VECHAIN_READ_ONLY=true, and implied
+ * when no signing account is configured.
+ */
+export async function isReadOnlyMode(): Promise<boolean> {
+    return process.env.VECHAIN_READ_ONLY === "true" || (await getAccounts()).size === 0;
+}
@@ -0,0 +1,202 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import fs from "node:fs";
+import type { NextFunction, Request, Response } from "express";
+import z from "zod";
+import { vechainConfig } from "./config.js";
+
+export interface ApiKey {
+    name: string;
+    keyHash: Buffer;
+    tools: string[];
+    rateLimit: {
+        requests: number;
+        windowMs: number;
+    };
+}
+
+const apiKeySchema = z.object({
+    name: z.string().min(1),
+    key: z.string().min(16),
+    tools: z.array(z.string().min(1)).default(["*"]),
+    rateLimit: z.object({
+        requests: z.number().int().positive(),
+        windowMs: z.number().int().positive().default(vechainConfig.auth.rateLimitWindowMs),
+    }).optional(),
+});
+
+let apiKeys: ApiKey[] | undefined;
+
+function hashKey(key: string): Buffer {
+    return createHash("sha256").update(key).digest();
+}
+
+function loadApiKeyDefinitions(): unknown[] {
+    const file = process.env.MCP_API_KEYS_FILE;
+    const source = file ? `MCP_API_KEYS_FILE (${file})` : "MCP_API_KEYS";
+    let definitions: unknown;
+
+    try {
+        definitions = JSON.parse(file ? fs.readFileSync(file, "utf8") : process.env.MCP_API_KEYS ?? "");
+    } catch (err) {
+        throw new Error(`Invalid ${source}: ${(err as Error)?.message ?? err}`);
+    }
+
+    if (!Array.isArray(definitions)) {
+        throw new Error(`Invalid ${source}: expected a JSON array of API keys`);
+    }
+
+    return definitions;
+}
+
+/**
+ * Whether API keys are configured. Configured keys that cannot be loaded do
+ * not turn authentication off: getApiKeys throws instead.
+ */
+export function isAuthEnabled(): boolean {
+    return Boolean(process.env.MCP_API_KEYS_FILE || process.env.MCP_API_KEYS);
+}
+
+/**
+ * The configured API keys. Throws when keys are configured but none of them
+ * is valid, so that the server refuses to start rather than run open.
+ */
+export function getApiKeys(): ApiKey[] {
+    if (apiKeys) return apiKeys;
+    if (!isAuthEnabled()) return [];
+
+    const loaded: ApiKey[] = [];
+
+    for (const [index, definition] of loadApiKeyDefinitions().entries()) {
+        const parsed = apiKeySchema.safeParse(definition);
+
+        if (!parsed.success) {
+            console.error(`Ignoring API key #${index}: ${parsed.error.message}`);
+            continue;
+        }
+
+        const { name, key, tools, rateLimit } = parsed.data;
+
+        loaded.push({
+            name,
+            keyHash: hashKey(key),
+            tools,
+            rateLimit: rateLimit ?? {
+                requests: vechainConfig.auth.rateLimitRequests,
+                windowMs: vechainConfig.auth.rateLimitWindowMs,
+            },
+        });
+    }
+
+    if (loaded.length === 0) {
+        throw new Error("API keys are configured (MCP_API_KEYS or MCP_API_KEYS_FILE) but none is valid: refusing to serve /mcp without authentication");
+    }
+
+    apiKeys = loaded;
+    return apiKeys;
+}
+
+/**
+ * Allowlist entries are exact tool names, `*`, or a prefix ending in `*`
+ * (e.g. `get_*`).
+ */
+export function isToolAllowed(apiKey: ApiKey | undefined, toolName: string): boolean {
+    if (!apiKey) return true;
+
+    return apiKey.tools.some((pattern) =>
+        pattern.endsWith("*") ? toolName.startsWith(pattern.slice(0, -1)) : pattern === toolName
+    );
+}
+
+function findApiKey(req: Request): ApiKey | undefined {
+    const authorization = req.headers.authorization;
+    const headerKey = req.headers["x-api-key"];
+
+    const provided = authorization?.startsWith("Bearer ")
+        ? authorization.slice("Bearer ".length).trim()
+        : typeof headerKey === "string" ? headerKey : undefined;
+
+    if (!provided) return undefined;
+
+    const providedHash = hashKey(provided);
+    return getApiKeys().find((apiKey) => timingSafeEqual(apiKey.keyHash, providedHash));
+}
+
+const rateWindows = new Map<string, { start: number, count: number }>();
+
+function isRateLimited(apiKey: ApiKey): boolean {
+    const now = Date.now();
+    const window = rateWindows.get(apiKey.name);
+
+    if (!window || now - window.start >= apiKey.rateLimit.windowMs) {
+        rateWindows.set(apiKey.name, { start: now, count: 1 });
+        return false;
+    }
+
+    window.count++;
+    return window.count > apiKey.rateLimit.requests;
+}
+
+function calledTools(body: unknown): string[] {
+    const messages = Array.isArray(body) ? body : [body];
+
+    return messages
+        .filter((message) => message?.method === "tools/call")
+        .map((message) => String(message.params?.name ?? ""));
+}
+
+function deny(res: Response, status: number, message: string) {
+    res.status(status).json({
+        jsonrpc: "2.0",
+        error: {
+            code: -32001,
+            message,
+        },
+        id: null,
+    });
+}
+
+/**
+ * Authenticates `/mcp` requests with `Authorization: Bearer <key>` or
+ * `x-api-key`, applies the key's rate limit and rejects calls to tools outside
+ * its allowlist. The matched key is stored in `res.locals.apiKey`.
+ * Without configured keys every request is let through; with keys that
+ * cannot be loaded, every request is refused.
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+    if (!isAuthEnabled()) return next();
+
+    let apiKey: ApiKey | undefined;
+
+    try {
+        apiKey = findApiKey(req);
+    } catch (err) {
+        console.error(`Denied ${req.method} ${req.originalUrl}: ${(err as Error)?.message ?? err}`);
+        deny(res, 503, "Service Unavailable: API keys are misconfigured.");
+        return;
+    }
+
+    if (!apiKey) {
+        console.error(`Denied ${req.method} ${req.originalUrl} from ${req.ip}: missing or invalid API key`);
+        res.setHeader("WWW-Authenticate", 'Bearer realm="mcp"');
+        deny(res, 401, "Unauthorized: missing or invalid API key.");
+        return;
+    }
+
+    if (isRateLimited(apiKey)) {
+        console.error(`Denied ${req.method} ${req.originalUrl} for key "${apiKey.name}": rate limit exceeded`);
+        res.setHeader("Retry-After", Math.ceil(apiKey.rateLimit.windowMs / 1000));
+        deny(res, 429, "Too Many Requests: rate limit exceeded.");
+        return;
+    }
+
+    const deniedTool = calledTools(req.body).find((tool) => !isToolAllowed(apiKey, tool));
+
+    if (deniedTool !== undefined) {
+        console.error(`Denied call to tool "${deniedTool}" for key "${apiKey.name}"`);
+        deny(res, 403, `Forbidden: tool "${deniedTool}" is not allowed for this API key.`);
+        return;
+    }
+
+    res.locals.apiKey = apiKey;
+    next();
+}
@@ -0,0 +1,136 @@
+import { VIP180_ABI } from "@vechain/sdk-core";
+import { decodeFunctionResult, encodeFunctionData, pad, toHex, type Abi } from "viem";
+import { ToolError } from "./errors.js";
+import type { NetworkConfig } from "./networks.js";
+import { thorestRequest } from "./thorest.js";
+import type { ClauseSimulationOutput } from "./types.js";
+import { parseAbiInput } from "./utils.js";
+
+export const builtinContracts = {
+    energy: {
+        name: "Energy",
+        address: "0x0000000000000000000000000000456e65726779",
+        abi: parseAbiInput([
+            "function name() pure returns (string)",
+            "function symbol() pure returns (string)",
+            "function decimals() pure returns (uint8)",
+            "function totalSupply() view returns (uint256)",
+            "function totalBurned() view returns (uint256)",
+            "function balanceOf(address _owner) view returns (uint256 balance)",
+            "function allowance(address _owner, address _spender) view returns (uint256 remaining)",
+            "function transfer(address _to, uint256 _amount) returns (bool success)",
+            "function transferFrom(address _from, address _to, uint256 _amount) returns (bool success)",
+            "function approve(address _spender, uint256 _value) returns (bool success)",
+            "function move(address _from, address _to, uint256 _amount) returns (bool success)",
+            "event Transfer(address indexed _from, address indexed _to, uint256 _value)",
+            "event Approval(address indexed _owner, address indexed _spender, uint256 _value)",
+        ]),
+    },
+    params: {
+        name: "Params",
+        address: "0x0000000000000000000000000000506172616d73",
+        abi: parseAbiInput([
+            "function executor() view returns (address)",
+            "function get(bytes32 _key) view returns (uint256)",
+            "function set(bytes32 _key, uint256 _value)",
+            "event Set(bytes32 indexed key, uint256 value)",
+        ]),
+    },
+    authority: {
+        name: "Authority",
+        address: "0x0000000000000000000000417574686f72697479",
+        abi: parseAbiInput([
+            "function executor() view returns (address)",
+            "function first() view returns (address)",
+            "function next(address _nodeMaster) view returns (address)",
+            "function get(address _nodeMaster) view returns (bool listed, address endorsor, bytes32 identity, bool active)",
+            "function add(address _nodeMaster, address _endorsor, bytes32 _identity)",
+            "function revoke(address _nodeMaster)",
+            "event Candidate(address indexed nodeMaster, bytes32 action)",
+        ]),
+    },
+    extension: {
+        name: "Extension",
+        address: "0x0000000000000000000000457874656e73696f6e",
+        abi: parseAbiInput([
+            "function blake2b256(bytes _value) view returns (bytes32)",
+            "function blockID(uint256 _num) view returns (bytes32)",
+            "function blockTotalScore(uint256 _num) view returns (uint64)",
+            "function blockTime(uint256 _num) view returns (uint256)",
+            "function blockSigner(uint256 _num) view returns (address)",
+            "function totalSupply() view returns (uint256)",
+            "function txProvedWork() view returns (uint256)",
+            "function txID() view returns (bytes32)",
+            "function txBlockRef() view returns (bytes8)",
+            "function txExpiration() view returns (uint256)",
+            "function txGasPayer() view returns (address)",
+        ]),
+    },
+    prototype: {
+        name: "Prototype",
+        address: "0x000000000000000000000050726f746f74797065",
+        abi: parseAbiInput([
+            "event $Master(address newMaster)",
+            "event $Credit(uint256 credit, uint256 recoveryRate)",
+            "event $User(address indexed user, bytes32 action)",
+            "event $Sponsor(address indexed sponsor, bytes32 action)",
+        ]),
+    },
+} satisfies Record<string, { name: string, address: string, abi: Abi }>;
+
+export const vip180Abi = VIP180_ABI as unknown as Abi;
+
+// VTHO generated per second by 1 wei of VET, scaled by 1e18.
+export const ENERGY_GROWTH_RATE = 5_000_000_000n;
+
+/**
+ * Governance parameters stored in the Params contract, by field name. Keys are
+ * the ASCII names, left-padded to bytes32.
+ */
+export const chainParamKeys = {
+    baseGasPrice: "base-gas-price",
+    rewardRatio: "reward-ratio",
+    proposerEndorsement: "proposer-endorsement",
+    maxBlockProposers: "max-block-proposers",
+} as const;
+
+export function encodeParamKey(name: string): `0x${string}` {
+    return pad(toHex(name), { size: 32 });
+}
+
+/**
+ * Calls view functions of a built-in contract in one POST /accounts/* at
+ * `revision`, and returns the decoded results in order.
+ */
+export async function readBuiltin(
+    network: NetworkConfig,
+    contract: { name: string, address: string, abi: Abi },
+    calls: Array<{ functionName: string, args?: unknown[] }>,
+    revision: string | number,
+): Promise<unknown[]> {
+    const outputs = await thorestRequest<ClauseSimulationOutput[]>(network, `/accounts/*?revision=${encodeURIComponent(revision)}`, {
+        body: {
+            clauses: calls.map(({ functionName, args }) => ({
+                to: contract.address,
+                value: "0x0",
+                data: encodeFunctionData({ abi: contract.abi, functionName, args: args ?? [] }),
+            })),
+        },
+        revision,
+    });
+
+    return calls.map(({ functionName }, index) => {
+        const output = outputs[index];
+
+        if (!output || output.reverted) {
+            throw new ToolError("REVERTED", `${contract.name}.${functionName}() reverted${output?.vmError ? `: ${output.vmError}` : ""}`);
+        }
+
+        return decodeFunctionResult({ abi: contract.abi, functionName, data: output.data as `0x${string}` });
+    });
+}
+
+export function getBuiltinContract(address: string) {
+    const normalized = address.toLowerCase();
+    return Object.values(builtinContracts).find((contract) => contract.address === normalized);
+}
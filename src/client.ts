@@ -1,7 +1,24 @@
+import fs from "node:fs";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { ErrorCode, McpError, type CallToolResult, type Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { ZodTypeAny } from "zod";
 import { vechainConfig } from "./config.js";
+import type { VeChainTool } from "./types.js";
+import { toolError } from "./errors.js";
+import { jsonSchemaToZodRoot, LruCache } from "./utils.js";
+import { docsProxyOutputSchema } from "./outputSchemas.js";
+
+type GitbookMcpClient = Awaited<ReturnType<typeof createGitbookMcpClient>>;
+
+export interface DocsSnapshotPage {
+    title: string;
+    url: string;
+    content: string;
+}
+
+const SEARCH_TOOL = "searchDocumentation";
 
 async function createGitbookMcpClient(docsUrl: string) {
     try {
@@ -21,7 +38,7 @@ async function createGitbookMcpClient(docsUrl: string) {
 
         const transport = new StreamableHTTPClientTransport(mcpServerUrl) as Transport;
 
-        await client.connect(transport);
+        await client.connect(transport, { timeout: vechainConfig.mcpClient.connectTimeout });
 
         return {
             client,
@@ -44,4 +61,309 @@ export async function createVechainDocsMcpClient() {
         console.error("Error creating VeChain Docs MCP Client:", err);
         throw err;
     }
-}
\ No newline at end of file
+}
+
+let docsClient: Promise<GitbookMcpClient> | undefined;
+let lastConnectFailure = 0;
+let docsTools: Promise<Tool[]> | undefined;
+
+const searchCache = new LruCache<CallToolResult>(vechainConfig.mcpClient.searchCacheSize);
+
+/**
+ * Shared VeChain Docs client: connects on first use and reconnects on the next
+ * call once the connection is closed. After a failed connection, calls fail
+ * fast for reconnectDelay instead of waiting on the remote again.
+ */
+export function getVechainDocsMcpClient(): Promise<GitbookMcpClient> {
+    if (docsClient) return docsClient;
+
+    if (Date.now() - lastConnectFailure < vechainConfig.mcpClient.reconnectDelay) {
+        return Promise.reject(new Error("VeChain Docs MCP server is unreachable, retrying later"));
+    }
+
+    const connection = createVechainDocsMcpClient();
+    docsClient = connection;
+
+    connection.then(
+        ({ client }) => {
+            client.onclose = () => {
+                if (docsClient === connection) docsClient = undefined;
+            };
+        },
+        () => {
+            if (docsClient === connection) docsClient = undefined;
+            lastConnectFailure = Date.now();
+        },
+    );
+
+    return connection;
+}
+
+function isConnectionError(err: unknown): boolean {
+    if (err instanceof McpError) {
+        return err.code === ErrorCode.ConnectionClosed || err.code === ErrorCode.RequestTimeout;
+    }
+
+    // Transport failures: network errors and HTTP errors of the session (e.g. 404 once it expired).
+    return true;
+}
+
+/**
+ * Calls a tool of the docs server; a call that fails because the session
+ * dropped is retried once on a new connection.
+ */
+export async function callDocsTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+    const pending = getVechainDocsMcpClient();
+    const connection = await pending;
+
+    try {
+        return await connection.client.callTool({ name, arguments: args }) as CallToolResult;
+    } catch (err) {
+        if (!isConnectionError(err)) throw err;
+
+        if (docsClient === pending) docsClient = undefined;
+        await connection.client.close().catch(() => undefined);
+
+        const { client } = await getVechainDocsMcpClient();
+        return await client.callTool({ name, arguments: args }) as CallToolResult;
+    }
+}
+
+function loadDocsTools(): Promise<Tool[]> {
+    if (docsTools) return docsTools;
+
+    const listing = getVechainDocsMcpClient().then((connection) => connection.listTools());
+    docsTools = listing;
+    listing.catch(() => {
+        if (docsTools === listing) docsTools = undefined;
+    });
+
+    return listing;
+}
+
+let snapshot: DocsSnapshotPage[] | undefined;
+
+/**
+ * Pages of the optional offline snapshot (VECHAIN_DOCS_SNAPSHOT_FILE), a JSON
+ * array of `{ title, url, content }`.
+ */
+export function getDocsSnapshot(): DocsSnapshotPage[] {
+    if (snapshot) return snapshot;
+
+    snapshot = [];
+    const file = process.env.VECHAIN_DOCS_SNAPSHOT_FILE;
+
+    if (!file) return snapshot;
+
+    try {
+        const pages = JSON.parse(fs.readFileSync(file, "utf8"));
+
+        snapshot = (Array.isArray(pages) ? pages : []).filter((page): page is DocsSnapshotPage =>
+            typeof page?.title === "string" && typeof page?.url === "string" && typeof page?.content === "string");
+    } catch (err) {
+        console.error("Error loading VeChain Docs snapshot:", err);
+    }
+
+    return snapshot;
+}
+
+function countOccurrences(text: string, term: string): number {
+    let count = 0;
+
+    for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) {
+        count++;
+    }
+
+    return count;
+}
+
+/**
+ * Ranks the snapshot pages by occurrences of the query terms, title matches
+ * counting more, and returns an excerpt around the first match.
+ */
+export function searchDocsSnapshot(query: string, limit = vechainConfig.mcpClient.snapshotMaxResults) {
+    const terms = query.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter((term) => term.length > 1);
+
+    return getDocsSnapshot()
+        .map((page) => {
+            const title = page.title.toLowerCase();
+            const content = page.content.toLowerCase();
+            const score = terms.reduce((total, term) => total + 5 * countOccurrences(title, term) + countOccurrences(content, term), 0);
+            const firstMatch = Math.min(...terms.map((term) => content.indexOf(term)).filter((index) => index !== -1));
+            const start = Number.isFinite(firstMatch) ? Math.max(firstMatch - 100, 0) : 0;
+
+            return { title: page.title, url: page.url, score, excerpt: page.content.slice(start, start + 400).trim() };
+        })
+        .filter((result) => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
+
+function normalizeDocsUrl(url: string): string {
+    return url.replace(/[?#].*$/, "").replace(/\/+$/, "").toLowerCase();
+}
+
+export type DocsSearchResult =
+    | { source: "remote" | "cache", response: CallToolResult }
+    | { source: "snapshot", reason: string, results: ReturnType<typeof searchDocsSnapshot> };
+
+/**
+ * Searches the docs server, caching results for searchCacheTtl; falls back
+ * to the offline snapshot when the server fails and a snapshot is configured.
+ */
+export async function searchDocumentation(query: string): Promise<DocsSearchResult> {
+    const key = query.trim().toLowerCase();
+    const cached = searchCache.get(key);
+
+    if (cached) return { source: "cache", response: cached };
+
+    try {
+        const response = await callDocsTool(SEARCH_TOOL, { query });
+
+        if (!response.isError) {
+            searchCache.set(key, response, vechainConfig.mcpClient.searchCacheTtl);
+        }
+
+        return { source: "remote", response };
+    } catch (err) {
+        if (getDocsSnapshot().length === 0) throw err;
+
+        return { source: "snapshot", reason: String((err as Error)?.message ?? err), results: searchDocsSnapshot(query) };
+    }
+}
+
+/**
+ * The docs server tool that returns a page by URL, found by name, if any.
+ */
+async function findPageTool(): Promise<{ name: string, urlArgument: string } | undefined> {
+    for (const tool of await loadDocsTools()) {
+        const urlArgument = Object.keys(tool.inputSchema.properties ?? {}).find((key) => /url|link|path/i.test(key));
+        if (/page/i.test(tool.name) && urlArgument) return { name: tool.name, urlArgument };
+    }
+
+    return undefined;
+}
+
+export type DocsPageResult =
+    | { source: "remote", response: CallToolResult }
+    | { source: "snapshot", reason: string, page: DocsSnapshotPage };
+
+/**
+ * Full content of a documentation page, from the page tool of the docs server,
+ * or from the offline snapshot.
+ */
+export async function getDocumentationPage(url: string): Promise<DocsPageResult> {
+    let reason = "The VeChain Docs MCP server has no page tool";
+
+    try {
+        const pageTool = await findPageTool();
+
+        if (pageTool) {
+            return { source: "remote", response: await callDocsTool(pageTool.name, { [pageTool.urlArgument]: url }) };
+        }
+    } catch (err) {
+        reason = String((err as Error)?.message ?? err);
+    }
+
+    const page = getDocsSnapshot().find((candidate) => normalizeDocsUrl(candidate.url) === normalizeDocsUrl(url));
+
+    if (!page) {
+        throw new Error(`${reason}, and the page is not in the offline snapshot`);
+    }
+
+    return { source: "snapshot", reason, page };
+}
+
+function toolName(name: string): string {
+    return `docs_${name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").replace(/[^A-Za-z0-9_]/g, "_").toLowerCase()}`;
+}
+
+/**
+ * The other tools of the docs server, exposed as `docs_<name>` tools that
+ * forward their arguments. The search and page tools have their own tools.
+ */
+async function createDocsProxyTools(): Promise<VeChainTool[]> {
+    const tools = await loadDocsTools();
+    if (tools.length === 0) return [];
+
+    const pageTool = await findPageTool();
+
+    return tools
+        .filter((tool) => tool.name !== SEARCH_TOOL && tool.name !== pageTool?.name)
+        .map((tool) => {
+            const schema = jsonSchemaToZodRoot(tool.inputSchema) as ZodTypeAny & { shape?: Record<string, ZodTypeAny> };
+
+            return {
+                name: toolName(tool.name),
+                title: tool.title ?? tool.name,
+                description: `${tool.description ?? tool.name} (VeChain Docs)`,
+                inputSchema: schema.shape ?? {},
+                outputSchema: docsProxyOutputSchema,
+                annotations: { readOnlyHint: true },
+                callback: async (args: Record<string, unknown>) => {
+                    try {
+                        const response = await callDocsTool(tool.name, args ?? {});
+
+                        return {
+                            content: response.content.map((item) => item.type === "text"
+                                ? { type: "text", text: item.text }
+                                : { type: "text", text: JSON.stringify(item, null, 2) }),
+                            ...(response.isError
+                                ? { isError: true }
+                                : {
+                                    structuredContent: {
+                                        content: response.content,
+                                        ...(response.structuredContent ? { structuredContent: response.structuredContent } : {}),
+                                    },
+                                }),
+                        };
+                    } catch (err) {
+                        return toolError(err, `Failed to call VeChain Docs tool ${tool.name}`, {}, "NODE_UNAVAILABLE");
+                    }
+                },
+            };
+        });
+}
+
+let docsProxyTools: VeChainTool[] | undefined;
+let docsProxyToolsLoading = false;
+const docsProxyToolListeners = new Set<(tools: VeChainTool[]) => void>();
+
+function loadDocsProxyTools() {
+    if (docsProxyToolsLoading) return;
+    docsProxyToolsLoading = true;
+
+    createDocsProxyTools().then(
+        (tools) => {
+            docsProxyTools = tools;
+            for (const listener of docsProxyToolListeners) listener(tools);
+            docsProxyToolListeners.clear();
+        },
+        (err) => {
+            console.error("Error listing VeChain Docs tools:", (err as Error)?.message ?? err);
+
+            setTimeout(() => {
+                docsProxyToolsLoading = false;
+                if (docsProxyToolListeners.size > 0) loadDocsProxyTools();
+            }, vechainConfig.mcpClient.reconnectDelay).unref();
+        },
+    );
+}
+
+/**
+ * Calls `listener` with the docs proxy tools: at once when they are already
+ * listed, otherwise once they are listed in the background, retrying every
+ * reconnectDelay while the docs server is unreachable, so that servers never
+ * wait on it. Returns a function that removes the listener.
+ */
+export function onDocsProxyTools(listener: (tools: VeChainTool[]) => void): () => void {
+    if (docsProxyTools) {
+        listener(docsProxyTools);
+        return () => undefined;
+    }
+
+    docsProxyToolListeners.add(listener);
+    loadDocsProxyTools();
+
+    return () => docsProxyToolListeners.delete(listener);
+}
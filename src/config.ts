@@ -1,43 +1,134 @@
-const MAINNET_THOREST_API_BASE_URL = "https://sync-mainnet.vechain.org"
-const TESTNET_THOREST_API_BASE_URL = "https://testnet.vechain.org"
+const MAINNET_THOREST_API_BASE_URLS = ["https://sync-mainnet.vechain.org", "https://mainnet.vechain.org"]
+const TESTNET_THOREST_API_BASE_URLS = ["https://testnet.vechain.org", "https://sync-testnet.vechain.org"]
 const CONTROLLER_ABORT_TIMEOUT_MS = 15_000 // 15 seconds
 
+const THOREST_RETRIES = 2
+const THOREST_RETRY_BASE_DELAY_MS = 250
+const THOREST_CACHE_SIZE = 500
+const THOREST_FINALIZED_CACHE_TTL_MS = 10_000 // 10 seconds, one block
+
 const ADDRESS_REGEX = /^(0x)?[0-9a-fA-F]{40}$/;
 const TXID_REGEX = /^0x[0-9a-fA-F]{64}$/;
+const BYTES32_REGEX = /^0x[0-9a-fA-F]{64}$/;
+
+const LOGS_MAX_LIMIT = 1000
+const ADDRESS_HISTORY_DEFAULT_LIMIT = 20
+const ADDRESS_HISTORY_MAX_LIMIT = 100
+
+const TX_DEFAULT_EXPIRATION_BLOCKS = 32
+const TX_SIMULATION_GAS_OVERHEAD = 15_000
+const TX_BASE_FEE_MULTIPLIER_PERCENT = 112n
+const TX_RECEIPT_TIMEOUT_MS = 120_000 // 2 minutes
+const TX_RECEIPT_POLL_INTERVAL_MS = 3_000 // 3 seconds
+
+const FEES_HISTORY_MAX_BLOCKS = 1024
+const FEES_ESTIMATE_HISTORY_BLOCKS = 20
+const FEES_SPEED_PERCENTILES = { slow: 25, normal: 50, fast: 75 }
+
+const SUBSCRIPTION_BUFFER_SIZE = 200
+const SUBSCRIPTION_MAX_SUBSCRIPTIONS = 20
+const SUBSCRIPTION_RECONNECT_BASE_DELAY_MS = 1_000 // 1 second
+const SUBSCRIPTION_RECONNECT_MAX_DELAY_MS = 30_000 // 30 seconds
+
+const CERTIFICATE_MAX_AGE_SECONDS = 3_600 // 1 hour
+const CERTIFICATE_CLOCK_SKEW_SECONDS = 300 // 5 minutes
 
 const MCP_CLIENT_NAME = "vechain-docs-client"
 const MCP_CLIENT_VERSION = "1.0.0"
 
 const VECHAIN_DOCS_URL = "https://docs.vechain.org"
+const DOCS_CONNECT_TIMEOUT_MS = 10_000 // 10 seconds
+const DOCS_RECONNECT_DELAY_MS = 30_000 // 30 seconds
+const DOCS_SEARCH_CACHE_TTL_MS = 10 * 60_000 // 10 minutes
+const DOCS_SEARCH_CACHE_SIZE = 200
+const DOCS_SNAPSHOT_MAX_RESULTS = 5
 
 const MCP_SERVER_NAME = "vechain-mpc-server"
 const MCP_SERVER_VERSION = "1.0.0"
 
+const MCP_SESSION_IDLE_TIMEOUT_MS = 30 * 60_000 // 30 minutes
+const MCP_SESSION_SWEEP_INTERVAL_MS = 60_000 // 1 minute
+const MCP_SESSION_MAX_EVENTS_PER_STREAM = 1_000
+
+const API_KEY_RATE_LIMIT_REQUESTS = 120
+const API_KEY_RATE_LIMIT_WINDOW_MS = 60_000 // 1 minute
+
 const MAINNET_RPC_URL = "https://mainnet.rpc.vechain.org"
 const TESTNET_RPC_URL = "http://testnet.rpc.vechain.org"
 
+const MAINNET_CHAIN_TAG = 0x4a
+const TESTNET_CHAIN_TAG = 0x27
+
 export const vechainConfig = {
     general: {
         addressRegex: ADDRESS_REGEX,
         txidRegex: TXID_REGEX,
+        bytes32Regex: BYTES32_REGEX,
+    },
+    thorest: {
+        retries: THOREST_RETRIES,
+        retryBaseDelay: THOREST_RETRY_BASE_DELAY_MS,
+        cacheSize: THOREST_CACHE_SIZE,
+        finalizedCacheTtl: THOREST_FINALIZED_CACHE_TTL_MS,
+    },
+    logs: {
+        maxLimit: LOGS_MAX_LIMIT,
+        historyDefaultLimit: ADDRESS_HISTORY_DEFAULT_LIMIT,
+        historyMaxLimit: ADDRESS_HISTORY_MAX_LIMIT,
+    },
+    transactions: {
+        defaultExpiration: TX_DEFAULT_EXPIRATION_BLOCKS,
+        simulationGasOverhead: TX_SIMULATION_GAS_OVERHEAD,
+        baseFeeMultiplierPercent: TX_BASE_FEE_MULTIPLIER_PERCENT,
+        receiptTimeout: TX_RECEIPT_TIMEOUT_MS,
+        receiptPollInterval: TX_RECEIPT_POLL_INTERVAL_MS,
+    },
+    fees: {
+        historyMaxBlocks: FEES_HISTORY_MAX_BLOCKS,
+        estimateHistoryBlocks: FEES_ESTIMATE_HISTORY_BLOCKS,
+        speedPercentiles: FEES_SPEED_PERCENTILES,
+    },
+    subscriptions: {
+        bufferSize: SUBSCRIPTION_BUFFER_SIZE,
+        maxSubscriptions: SUBSCRIPTION_MAX_SUBSCRIPTIONS,
+        reconnectBaseDelay: SUBSCRIPTION_RECONNECT_BASE_DELAY_MS,
+        reconnectMaxDelay: SUBSCRIPTION_RECONNECT_MAX_DELAY_MS,
     },
     mainnet: {
-        thorestApiBaseUrl: MAINNET_THOREST_API_BASE_URL,
+        thorestApiBaseUrls: MAINNET_THOREST_API_BASE_URLS,
         controllerAbortTimeout: CONTROLLER_ABORT_TIMEOUT_MS,
-        rpc: MAINNET_RPC_URL
+        rpc: MAINNET_RPC_URL,
+        chainTag: MAINNET_CHAIN_TAG,
     },
     testnet: {
-        thorestApiBaseUrl: TESTNET_THOREST_API_BASE_URL,
+        thorestApiBaseUrls: TESTNET_THOREST_API_BASE_URLS,
         controllerAbortTimeout: CONTROLLER_ABORT_TIMEOUT_MS,
-        rpc: TESTNET_RPC_URL
+        rpc: TESTNET_RPC_URL,
+        chainTag: TESTNET_CHAIN_TAG,
+    },
+    certificates: {
+        maxAgeSeconds: CERTIFICATE_MAX_AGE_SECONDS,
+        clockSkewSeconds: CERTIFICATE_CLOCK_SKEW_SECONDS,
     },
     mcpClient: {
         name: MCP_CLIENT_NAME,    
         version: MCP_CLIENT_VERSION,
-        vechainDocsUrl: VECHAIN_DOCS_URL
+        vechainDocsUrl: VECHAIN_DOCS_URL,
+        connectTimeout: DOCS_CONNECT_TIMEOUT_MS,
+        reconnectDelay: DOCS_RECONNECT_DELAY_MS,
+        searchCacheTtl: DOCS_SEARCH_CACHE_TTL_MS,
+        searchCacheSize: DOCS_SEARCH_CACHE_SIZE,
+        snapshotMaxResults: DOCS_SNAPSHOT_MAX_RESULTS,
+    },
+    auth: {
+        rateLimitRequests: API_KEY_RATE_LIMIT_REQUESTS,
+        rateLimitWindowMs: API_KEY_RATE_LIMIT_WINDOW_MS,
     },
     mcpServer: {
         name: MCP_SERVER_NAME,
-        version: MCP_SERVER_VERSION
+        version: MCP_SERVER_VERSION,
+        sessionIdleTimeout: MCP_SESSION_IDLE_TIMEOUT_MS,
+        sessionSweepInterval: MCP_SESSION_SWEEP_INTERVAL_MS,
+        maxEventsPerStream: MCP_SESSION_MAX_EVENTS_PER_STREAM,
     }
 }
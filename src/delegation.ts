@@ -0,0 +1,113 @@
+import { Hex, Transaction } from "@vechain/sdk-core";
+import { normalizeAddress } from "./utils.js";
+import { getAccount } from "./accounts.js";
+import { ToolError } from "./errors.js";
+
+export interface GasPayerPolicy {
+    allowedOrigins: string[] | null;
+    allowedTargets: string[] | null;
+    maxGas: number | null;
+    maxFeePerGas: bigint | null;
+    maxGasPriceCoef: number | null;
+}
+
+function parseAddressList(value: string | undefined): string[] | null {
+    const list = (value ?? "")
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .map(normalizeAddress);
+
+    return list.length > 0 ? list : null;
+}
+
+export function getGasPayerPolicy(): GasPayerPolicy {
+    const maxGas = Number(process.env.GAS_PAYER_MAX_GAS);
+    const maxFeePerGas = process.env.GAS_PAYER_MAX_FEE_PER_GAS;
+    const maxGasPriceCoef = process.env.GAS_PAYER_MAX_GAS_PRICE_COEF;
+
+    return {
+        allowedOrigins: parseAddressList(process.env.GAS_PAYER_ALLOWED_ORIGINS),
+        allowedTargets: parseAddressList(process.env.GAS_PAYER_ALLOWED_TARGETS),
+        maxGas: Number.isFinite(maxGas) && maxGas > 0 ? maxGas : null,
+        maxFeePerGas: maxFeePerGas ? BigInt(maxFeePerGas) : null,
+        maxGasPriceCoef: maxGasPriceCoef ? Number(maxGasPriceCoef) : null,
+    };
+}
+
+/**
+ * Key of the gas payer: the given account, else GAS_PAYER_SECRET_KEY, else the
+ * GAS_PAYER_ACCOUNT account. Never the default signing account, so that
+ * sponsoring cannot spend the VTHO of the agent wallet by accident.
+ */
+export async function getGasPayerSecretKey(accountName?: string): Promise<Uint8Array> {
+    if (accountName) return (await getAccount(accountName)).secretKey;
+
+    const secretKey = process.env.GAS_PAYER_SECRET_KEY;
+    if (secretKey) return Hex.of(secretKey).bytes;
+
+    const account = process.env.GAS_PAYER_ACCOUNT;
+    if (account) return (await getAccount(account)).secretKey;
+
+    throw new ToolError("MISSING_KEY", "No gas payer is configured: set GAS_PAYER_SECRET_KEY or GAS_PAYER_ACCOUNT, or pass the paying account");
+}
+
+/**
+ * Returns the reasons why the gas payer must refuse to sponsor `transaction`
+ * for `origin`; an empty list means the policy allows it.
+ */
+export function checkGasPayerPolicy(transaction: Transaction, origin: string, policy: GasPayerPolicy = getGasPayerPolicy()): string[] {
+    const violations: string[] = [];
+    const normalizedOrigin = normalizeAddress(origin);
+
+    if (!policy.allowedOrigins) {
+        violations.push("No origin allowlist is configured (GAS_PAYER_ALLOWED_ORIGINS): the gas payer sponsors no one");
+    } else if (!policy.allowedOrigins.includes(normalizedOrigin)) {
+        violations.push(`Origin ${normalizedOrigin} is not allowed`);
+    }
+
+    if (policy.allowedTargets) {
+        transaction.body.clauses.forEach((clause, index) => {
+            if (!clause.to) {
+                violations.push(`Clause ${index} deploys a contract, which is not allowed`);
+            } else if (!policy.allowedTargets!.includes(normalizeAddress(clause.to))) {
+                violations.push(`Clause ${index} targets ${normalizeAddress(clause.to)}, which is not allowed`);
+            }
+        });
+    }
+
+    if (policy.maxGas !== null && Number(transaction.body.gas) > policy.maxGas) {
+        violations.push(`Gas ${transaction.body.gas} exceeds the maximum of ${policy.maxGas}`);
+    }
+
+    const { maxFeePerGas, maxPriorityFeePerGas, gasPriceCoef } = transaction.body;
+
+    if (policy.maxFeePerGas !== null) {
+        for (const [name, value] of [["maxFeePerGas", maxFeePerGas], ["maxPriorityFeePerGas", maxPriorityFeePerGas]] as const) {
+            if (value !== undefined && BigInt(value) > policy.maxFeePerGas) {
+                violations.push(`${name} ${BigInt(value)} exceeds the maximum of ${policy.maxFeePerGas} wei`);
+            }
+        }
+    }
+
+    if (policy.maxGasPriceCoef !== null && gasPriceCoef !== undefined && Number(gasPriceCoef) > policy.maxGasPriceCoef) {
+        violations.push(`gasPriceCoef ${gasPriceCoef} exceeds the maximum of ${policy.maxGasPriceCoef}`);
+    }
+
+    return violations;
+}
+
+export function markAsDelegated(transaction: Transaction): Transaction {
+    return Transaction.of({
+        ...transaction.body,
+        reserved: {
+            ...transaction.body.reserved,
+            features: (transaction.body.reserved?.features ?? 0) | 1,
+        },
+    });
+}
+
+export function combineDelegatedSignatures(transaction: Transaction, originSignature: string, gasPayerSignature: string): Transaction {
+    const signature = new Uint8Array([...Hex.of(originSignature).bytes, ...Hex.of(gasPayerSignature).bytes]);
+    return Transaction.of(transaction.body, signature);
+}
@@ -0,0 +1,116 @@
+import type { ToolResult } from "./types.js";
+
+/**
+ * Stable error codes of tool results, so that agents can tell a missing
+ * object from an unreachable node and decide whether to retry.
+ */
+export type ToolErrorCode =
+    | "INVALID_INPUT"
+    | "NOT_FOUND"
+    | "NODE_UNAVAILABLE"
+    | "TIMEOUT"
+    | "REVERTED"
+    | "POLICY_DENIED"
+    | "MISSING_KEY"
+    | "INTERNAL_ERROR";
+
+const retryAdvice: Record<ToolErrorCode, { retryable: boolean, hint: string }> = {
+    INVALID_INPUT: {
+        retryable: false,
+        hint: "Fix the arguments described in reason; the same call will fail again.",
+    },
+    NOT_FOUND: {
+        retryable: false,
+        hint: "Check the identifier and the network. A transaction that is still pending can be found after the next blocks.",
+    },
+    NODE_UNAVAILABLE: {
+        retryable: true,
+        hint: "The VeChain node is unreachable or overloaded: retry after a few seconds, or configure other nodes for the network.",
+    },
+    TIMEOUT: {
+        retryable: true,
+        hint: "Retry the call; for log queries, narrow the range or lower the limit.",
+    },
+    REVERTED: {
+        retryable: false,
+        hint: "The call reverts on-chain: check the revert reason, the arguments and the account state before retrying.",
+    },
+    POLICY_DENIED: {
+        retryable: false,
+        hint: "Do not retry as is: change the transaction to satisfy the violations, or ask the operator to change the policy.",
+    },
+    MISSING_KEY: {
+        retryable: false,
+        hint: "Configure a signing account (AGENT_SECRET_KEY, AGENT_KEYSTORE_FILE, AGENT_MNEMONIC or AGENT_ACCOUNTS_FILE) and restart the server.",
+    },
+    INTERNAL_ERROR: {
+        retryable: false,
+        hint: "Unexpected error: retrying is unlikely to help; report it with the reason.",
+    },
+};
+
+export class ToolError extends Error {
+    constructor(
+        public readonly code: ToolErrorCode,
+        message: string,
+        public readonly details: Record<string, unknown> = {},
+    ) {
+        super(message);
+        this.name = "ToolError";
+    }
+}
+
+/**
+ * Classifies any thrown value; errors without a code get `fallback`.
+ */
+export function toToolError(err: unknown, fallback: ToolErrorCode = "INTERNAL_ERROR"): ToolError {
+    if (err instanceof ToolError) return err;
+
+    const message = String((err as Error)?.message ?? err);
+
+    if ((err as Error)?.name === "AbortError") return new ToolError("TIMEOUT", message);
+
+    return new ToolError(fallback, message);
+}
+
+/**
+ * Parses a tool argument with `parse`; its failures are reported as
+ * INVALID_INPUT for `what`, while failures of the rest of the call keep their
+ * own code.
+ */
+export function parseArgument<T>(what: string, parse: () => T): T {
+    try {
+        return parse();
+    } catch (err) {
+        if (err instanceof ToolError) throw err;
+        throw new ToolError("INVALID_INPUT", `Invalid ${what}: ${String((err as Error)?.message ?? err)}`);
+    }
+}
+
+/**
+ * Failed tool result, flagged with isError: the summary, the error code with
+ * its retry advice, the reason, and the call context.
+ */
+export function toolError(
+    err: unknown,
+    summary: string,
+    context: Record<string, unknown> = {},
+    fallback?: ToolErrorCode,
+): ToolResult {
+    const error = toToolError(err, fallback);
+
+    return {
+        content: [{
+            type: "text",
+            text: JSON.stringify({
+                error: summary,
+                code: error.code,
+                reason: error.message,
+                ...retryAdvice[error.code],
+                ...error.details,
+                ...context,
+            }, null, 2),
+        }],
+        isError: true,
+    };
+}
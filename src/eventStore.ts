@@ -0,0 +1,47 @@
+import { randomUUID } from "node:crypto";
+import type { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * In-memory event store that lets clients resume SSE streams with
+ * Last-Event-ID. Keeps the most recent `maxEventsPerStream` events per stream.
+ */
+export class InMemoryEventStore implements EventStore {
+    private readonly streams = new Map<string, Array<{ eventId: string, message: JSONRPCMessage }>>();
+    private readonly eventStreams = new Map<string, string>();
+
+    constructor(private readonly maxEventsPerStream: number) { }
+
+    async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+        const eventId = `${streamId}_${randomUUID()}`;
+        const events = this.streams.get(streamId) ?? [];
+
+        events.push({ eventId, message });
+        this.eventStreams.set(eventId, streamId);
+
+        while (events.length > this.maxEventsPerStream) {
+            const dropped = events.shift();
+            if (dropped) this.eventStreams.delete(dropped.eventId);
+        }
+
+        this.streams.set(streamId, events);
+        return eventId;
+    }
+
+    async replayEventsAfter(
+        lastEventId: string,
+        { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+    ): Promise<string> {
+        const streamId = this.eventStreams.get(lastEventId);
+        if (!streamId) return "";
+
+        const events = this.streams.get(streamId) ?? [];
+        const index = events.findIndex((event) => event.eventId === lastEventId);
+
+        for (const event of events.slice(index + 1)) {
+            await send(event.eventId, event.message);
+        }
+
+        return streamId;
+    }
+}
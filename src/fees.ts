@@ -0,0 +1,173 @@
+import { Transaction, type TransactionClause } from "@vechain/sdk-core";
+import { formatUnits } from "viem";
+import { builtinContracts, chainParamKeys, encodeParamKey, readBuiltin } from "./builtins.js";
+import { vechainConfig } from "./config.js";
+import { ToolError } from "./errors.js";
+import type { NetworkConfig } from "./networks.js";
+import { thorestRequest } from "./thorest.js";
+import type { ClauseSimulationOutput } from "./types.js";
+import { decodeRevertReason, parseAbiInput } from "./utils.js";
+
+export type FeeSpeed = keyof typeof vechainConfig.fees.speedPercentiles;
+
+export interface FeeHistory {
+    oldestBlock: string;
+    baseFeePerGas: string[];
+    gasUsedRatio: number[];
+    reward?: string[][];
+}
+
+export interface GasEstimate {
+    intrinsic: number;
+    execution: number;
+    total: number;
+    source: "estimated" | "provided";
+}
+
+/**
+ * Gas of `clauses` sent by `caller`: intrinsic gas plus the gas used by
+ * simulating them at `revision`, with a margin. A reverted clause fails the
+ * estimation with its decoded revert reason; `abis` are the clause ABIs used
+ * to decode it.
+ */
+export async function estimateGas(
+    network: NetworkConfig,
+    clauses: TransactionClause[],
+    caller: string,
+    revision: string,
+    abis: unknown[] = [],
+): Promise<GasEstimate> {
+    const intrinsic = Number(Transaction.intrinsicGas(clauses).wei);
+
+    const outputs = await thorestRequest<ClauseSimulationOutput[]>(
+        network,
+        `/accounts/*?revision=${revision}`,
+        { body: { clauses, caller }, revision }
+    );
+
+    const revertedIndex = outputs.findIndex((output) => output.reverted);
+    if (revertedIndex !== -1) {
+        const output = outputs[revertedIndex]!;
+        const clauseAbi = abis[revertedIndex];
+        const reason = decodeRevertReason(output.data, clauseAbi !== undefined ? parseAbiInput(clauseAbi) : []);
+        throw new ToolError("REVERTED", `Clause ${revertedIndex} reverted during gas estimation: ${reason ?? (output.vmError || "unknown reason")}`);
+    }
+
+    const gasUsed = outputs.reduce((sum, output) => sum + output.gasUsed, 0);
+    const execution = gasUsed > 0 ? gasUsed + vechainConfig.transactions.simulationGasOverhead : 0;
+
+    return { intrinsic, execution, total: intrinsic + execution, source: "estimated" };
+}
+
+/**
+ * Base fees, gas used ratios and, with `rewardPercentiles`, the priority fees
+ * paid at those percentiles, of `blockCount` blocks up to `newestBlock`.
+ */
+export function getFeeHistory(
+    network: NetworkConfig,
+    blockCount: number,
+    newestBlock: string | number,
+    rewardPercentiles: number[] = [],
+): Promise<FeeHistory> {
+    const query = new URLSearchParams({ blockCount: String(blockCount), newestBlock: String(newestBlock) });
+
+    if (rewardPercentiles.length > 0) {
+        query.set("rewardPercentiles", rewardPercentiles.join(","));
+    }
+
+    return thorestRequest<FeeHistory>(network, `/fees/history?${query}`, { revision: newestBlock });
+}
+
+function vtho(wei: bigint) {
+    return { wei: wei.toString(), vtho: formatUnits(wei, 18) };
+}
+
+/**
+ * Priority fees for each speed: the average of the rewards paid at the speed
+ * percentile over the recent blocks, with normal and fast not below the node
+ * suggestion and slow not above normal.
+ */
+function priorityFees(history: FeeHistory, suggested: bigint): Record<FeeSpeed, bigint> {
+    const rewards = history.reward ?? [];
+    const average = (column: number) => rewards.length === 0
+        ? suggested
+        : rewards.reduce((sum, block) => sum + BigInt(block[column] ?? 0), 0n) / BigInt(rewards.length);
+    const max = (a: bigint, b: bigint) => a > b ? a : b;
+
+    const normal = max(average(1), suggested);
+
+    return {
+        slow: average(0) < normal ? average(0) : normal,
+        normal,
+        fast: max(average(2), normal),
+    };
+}
+
+/**
+ * Fees of a transaction at the best block: legacy pricing (base gas price of
+ * the Params contract scaled by gasPriceCoef) and, once dynamic fees are
+ * active, maxFeePerGas / maxPriorityFeePerGas for each speed, with the
+ * resulting VTHO costs.
+ */
+export async function estimateFees(
+    network: NetworkConfig,
+    { clauses, caller, gas, gasPriceCoef, abis }: {
+        clauses: TransactionClause[],
+        caller: string,
+        gas?: number,
+        gasPriceCoef: number,
+        abis?: unknown[],
+    },
+) {
+    const best = await thorestRequest<{ id: string, number: number, baseFeePerGas?: string }>(network, "/blocks/best");
+    const percentiles = vechainConfig.fees.speedPercentiles;
+
+    const [gasEstimate, [baseGasPrice], history, suggestion] = await Promise.all([
+        gas !== undefined
+            ? { intrinsic: Number(Transaction.intrinsicGas(clauses).wei), execution: 0, total: gas, source: "provided" as const }
+            : estimateGas(network, clauses, caller, best.id, abis),
+        readBuiltin(network, builtinContracts.params, [
+            { functionName: "get", args: [encodeParamKey(chainParamKeys.baseGasPrice)] },
+        ], best.id),
+        best.baseFeePerGas
+            ? getFeeHistory(network, vechainConfig.fees.estimateHistoryBlocks, best.id, [percentiles.slow, percentiles.normal, percentiles.fast])
+            : null,
+        best.baseFeePerGas
+            ? thorestRequest<{ maxPriorityFeePerGas: string }>(network, "/fees/priority")
+            : null,
+    ]);
+
+    const totalGas = BigInt(gasEstimate.total);
+    const baseFee = best.baseFeePerGas ? BigInt(best.baseFeePerGas) : null;
+    const legacyGasPrice = (baseGasPrice as bigint) + (baseGasPrice as bigint) * BigInt(gasPriceCoef) / 255n;
+
+    const dynamic = baseFee !== null && history && suggestion
+        ? Object.fromEntries(Object.entries(priorityFees(history, BigInt(suggestion.maxPriorityFeePerGas))).map(([speed, priorityFee]) => {
+            const maxFee = baseFee * vechainConfig.transactions.baseFeeMultiplierPercent / 100n + priorityFee;
+
+            return [speed, {
+                maxFeePerGas: maxFee.toString(),
+                maxPriorityFeePerGas: priorityFee.toString(),
+                expectedCost: vtho((baseFee + priorityFee) * totalGas),
+                maxCost: vtho(maxFee * totalGas),
+            }];
+        })) as Record<FeeSpeed, unknown>
+        : null;
+
+    return {
+        block: { id: best.id, number: best.number },
+        gas: gasEstimate,
+        baseFeePerGas: baseFee?.toString() ?? null,
+        legacy: {
+            baseGasPrice: (baseGasPrice as bigint).toString(),
+            gasPriceCoef,
+            gasPrice: legacyGasPrice.toString(),
+            totalCost: vtho(legacyGasPrice * totalGas),
+            coversBaseFee: baseFee !== null ? legacyGasPrice >= baseFee : null,
+        },
+        dynamic,
+        ...(history
+            ? { history: { blocks: history.gasUsedRatio.length, oldestBlock: history.oldestBlock, percentiles } }
+            : {}),
+    };
+}
@@ -0,0 +1,263 @@
+import { formatUnits } from "viem";
+import { decodeEvent } from "./abiRegistry.js";
+import { vechainConfig } from "./config.js";
+import { ToolError } from "./errors.js";
+import type { NetworkConfig } from "./networks.js";
+import { thorestRequest } from "./thorest.js";
+import { resolveToken, type TokenInfo } from "./tokens.js";
+import { normalizeAddress } from "./utils.js";
+
+// keccak256("Transfer(address,address,uint256)"), shared by VIP-180 and ERC-721.
+const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+export type HistoryDirection = "in" | "out" | "all";
+
+export interface AddressHistoryOptions {
+    direction: HistoryDirection;
+    counterparty?: string;
+    /** "VET", or a VIP-180 token symbol or address. */
+    token?: string;
+    unit: "block" | "time";
+    from?: number;
+    to?: number;
+    order: "asc" | "desc";
+    offset: number;
+    limit: number;
+}
+
+interface LogMeta {
+    blockID: string;
+    blockNumber: number;
+    blockTimestamp: number;
+    txID: string;
+    txOrigin: string;
+    clauseIndex: number;
+    txIndex?: number;
+    logIndex?: number;
+}
+
+interface TransferLog {
+    sender: string;
+    recipient: string;
+    amount: string;
+    meta: LogMeta;
+}
+
+interface EventLog {
+    address: string;
+    topics: string[];
+    data: string;
+    meta: LogMeta;
+}
+
+function addressTopic(address: string): string {
+    return `0x${"0".repeat(24)}${address.slice(2)}`;
+}
+
+function topicAddress(topic: string | undefined): string {
+    return `0x${(topic ?? "").slice(-40)}`.toLowerCase();
+}
+
+function directionOf(address: string, from: string, to: string): "in" | "out" | "self" {
+    if (from === address && to === address) return "self";
+    return from === address ? "out" : "in";
+}
+
+function position(meta: LogMeta): number[] {
+    return [meta.blockNumber, meta.txIndex ?? 0, meta.clauseIndex, meta.logIndex ?? 0];
+}
+
+function comparePositions(a: LogMeta, b: LogMeta): number {
+    const [left, right] = [position(a), position(b)];
+    const index = left.findIndex((value, i) => value !== right[i]);
+    return index === -1 ? 0 : left[index]! - right[index]!;
+}
+
+function metaView(meta: LogMeta) {
+    return {
+        txID: meta.txID,
+        txOrigin: meta.txOrigin,
+        clauseIndex: meta.clauseIndex,
+        blockNumber: meta.blockNumber,
+        blockID: meta.blockID,
+        timestamp: meta.blockTimestamp,
+        time: new Date(meta.blockTimestamp * 1000).toISOString(),
+    };
+}
+
+/**
+ * Criteria of the event log query: VIP-180 / ERC-721 Transfer events of the
+ * address and, without direction or token filter, every other event that has
+ * the address as an indexed argument.
+ */
+function eventCriteria(address: string, options: AddressHistoryOptions, token: TokenInfo | null) {
+    const self = addressTopic(address);
+    const other = options.counterparty ? addressTopic(options.counterparty) : undefined;
+    const transfer = { topic0: TRANSFER_TOPIC, ...(token ? { address: token.address } : {}) };
+
+    if (options.direction !== "all" || token) {
+        return [
+            ...(options.direction !== "in" ? [{ ...transfer, topic1: self, ...(other ? { topic2: other } : {}) }] : []),
+            ...(options.direction !== "out" ? [{ ...transfer, topic2: self, ...(other ? { topic1: other } : {}) }] : []),
+        ];
+    }
+
+    if (other) {
+        return [
+            { ...transfer, topic1: self, topic2: other },
+            { ...transfer, topic1: other, topic2: self },
+            ...["topic1", "topic2", "topic3"].map((topic) => ({ address: options.counterparty, [topic]: self })),
+        ];
+    }
+
+    return ["topic1", "topic2", "topic3"].map((topic) => ({ [topic]: self }));
+}
+
+function transferCriteria(address: string, options: AddressHistoryOptions) {
+    const counterparty = options.counterparty;
+
+    return [
+        ...(options.direction !== "in" ? [{ sender: address, ...(counterparty ? { recipient: counterparty } : {}) }] : []),
+        ...(options.direction !== "out" ? [{ recipient: address, ...(counterparty ? { sender: counterparty } : {}) }] : []),
+    ];
+}
+
+/**
+ * Token metadata of the contracts in `logs`, for amounts with decimals;
+ * contracts that are not VIP-180 tokens map to null.
+ */
+async function tokensOf(network: NetworkConfig, logs: EventLog[]): Promise<Map<string, TokenInfo | null>> {
+    const addresses = [...new Set(logs.filter((log) => log.topics.length === 3).map((log) => log.address.toLowerCase()))];
+    const tokens = await Promise.allSettled(addresses.map((address) => resolveToken(network, address)));
+
+    return new Map(addresses.map((address, index) => {
+        const token = tokens[index];
+        return [address, token?.status === "fulfilled" ? token.value : null];
+    }));
+}
+
+function eventEntry(address: string, log: EventLog, tokens: Map<string, TokenInfo | null>) {
+    const contract = log.address.toLowerCase();
+
+    if (log.topics[0] === TRANSFER_TOPIC && (log.topics.length === 3 || log.topics.length === 4)) {
+        const from = topicAddress(log.topics[1]);
+        const to = topicAddress(log.topics[2]);
+        const direction = directionOf(address, from, to);
+        const counterparty = direction === "out" ? to : from;
+
+        if (log.topics.length === 4) {
+            return { type: "nft_transfer", direction, counterparty, from, to, contract, tokenId: BigInt(log.topics[3]!).toString(), ...metaView(log.meta) };
+        }
+
+        const token = tokens.get(contract) ?? null;
+        const amount = log.data === "0x" ? 0n : BigInt(log.data);
+
+        return {
+            type: "token_transfer",
+            direction,
+            counterparty,
+            from,
+            to,
+            contract,
+            token: token?.symbol ?? null,
+            amount: token ? formatUnits(amount, token.decimals) : null,
+            amountInBaseUnits: amount.toString(),
+            ...metaView(log.meta),
+        };
+    }
+
+    const decoded = decodeEvent(log);
+
+    return {
+        type: "contract_event",
+        direction: log.meta.txOrigin.toLowerCase() === address ? "out" : "in",
+        counterparty: contract,
+        contract,
+        event: decoded?.event ?? null,
+        args: decoded?.args ?? null,
+        topics: log.topics,
+        data: log.data,
+        ...metaView(log.meta),
+    };
+}
+
+/**
+ * Timeline of an address: VET transfers from the transfer logs, and token
+ * transfers and contract events from the event logs, merged by position in
+ * the chain. Each query reads offset + limit logs so that the merged page is
+ * exact.
+ */
+export async function getAddressHistory(network: NetworkConfig, address: string, options: AddressHistoryOptions) {
+    const self = normalizeAddress(address);
+    const counterparty = options.counterparty ? normalizeAddress(options.counterparty) : undefined;
+    const normalized = { ...options, ...(counterparty ? { counterparty } : {}) };
+    const window = options.offset + options.limit;
+
+    if (window > vechainConfig.logs.maxLimit) {
+        throw new ToolError("INVALID_INPUT", `offset + limit must not exceed ${vechainConfig.logs.maxLimit}: narrow the range instead of paging further`);
+    }
+
+    const vetOnly = options.token?.toUpperCase() === "VET";
+    const token = options.token && !vetOnly ? await resolveToken(network, options.token) : null;
+
+    const range = options.from !== undefined || options.to !== undefined
+        ? { unit: options.unit, from: options.from ?? 0, to: options.to ?? Number.MAX_SAFE_INTEGER }
+        : null;
+    const query = { range, options: { offset: 0, limit: window, includeIndexes: true }, order: options.order };
+
+    const [transfers, events] = await Promise.all([
+        token
+            ? []
+            : thorestRequest<TransferLog[]>(network, "/logs/transfer", { body: { ...query, criteriaSet: transferCriteria(self, normalized) } }),
+        vetOnly
+            ? []
+            : thorestRequest<EventLog[]>(network, "/logs/event", { body: { ...query, criteriaSet: eventCriteria(self, normalized, token) } }),
+    ]);
+
+    const tokens = await tokensOf(network, events);
+    const sign = options.order === "asc" ? 1 : -1;
+
+    const entries = [
+        ...transfers.map((log) => {
+            const sender = log.sender.toLowerCase();
+            const recipient = log.recipient.toLowerCase();
+            const direction = directionOf(self, sender, recipient);
+            const amount = BigInt(log.amount);
+
+            return {
+                meta: log.meta,
+                entry: {
+                    type: "vet_transfer",
+                    direction,
+                    counterparty: direction === "out" ? recipient : sender,
+                    from: sender,
+                    to: recipient,
+                    token: "VET",
+                    amount: formatUnits(amount, 18),
+                    amountInBaseUnits: amount.toString(),
+                    ...metaView(log.meta),
+                },
+            };
+        }),
+        ...events.map((log) => ({ meta: log.meta, entry: eventEntry(self, log, tokens) })),
+    ].sort((a, b) => sign * comparePositions(a.meta, b.meta));
+
+    const page = entries.slice(options.offset, window).map(({ entry }) => entry);
+    const hasMore = entries.length > window || transfers.length === window || events.length === window;
+
+    return {
+        address: self,
+        network: network.name,
+        filters: {
+            direction: options.direction,
+            counterparty: counterparty ?? null,
+            token: vetOnly ? "VET" : token?.symbol ?? null,
+            range,
+        },
+        order: options.order,
+        offset: options.offset,
+        count: page.length,
+        items: page,
+        nextOffset: hasMore ? window : null,
+    };
+}
@@ -4,7 +4,8 @@ import dotenv from "dotenv";
 import { start } from "./server.js"
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-dotenv.config({ path: path.resolve(__dirname, "../.env") });
+// quiet: stdout carries the JSON-RPC stream in stdio mode.
+dotenv.config({ path: path.resolve(__dirname, "../.env"), quiet: true });
 
 start().catch((err) => {
   console.error("Fatal error:", err);
@@ -0,0 +1,92 @@
+import fs from "node:fs";
+import z from "zod";
+import { vechainConfig } from "./config.js";
+import { ToolError } from "./errors.js";
+import { isMainnet } from "./wallet.js";
+
+export interface NetworkConfig {
+    name: string;
+    thorestApiBaseUrls: string[];
+    controllerAbortTimeout: number;
+    rpc?: string;
+    chainTag?: number;
+}
+
+const customNetworkSchema = z.object({
+    thorestApiBaseUrl: z.string().url().optional(),
+    thorestApiBaseUrls: z.array(z.string().url()).min(1).optional(),
+    rpc: z.string().url().optional(),
+    chainTag: z.number().int().min(0).max(255).optional(),
+    controllerAbortTimeout: z.number().int().positive().optional(),
+});
+
+let networks: Map<string, NetworkConfig> | undefined;
+
+function loadCustomNetworks(): Record<string, unknown> {
+    const file = process.env.VECHAIN_CUSTOM_NETWORKS_FILE;
+    const inline = process.env.VECHAIN_CUSTOM_NETWORKS;
+
+    try {
+        if (file) return JSON.parse(fs.readFileSync(file, "utf8"));
+        if (inline) return JSON.parse(inline);
+    } catch (err) {
+        console.error("Error loading custom networks:", err);
+    }
+
+    return {};
+}
+
+export function getNetworks(): Map<string, NetworkConfig> {
+    if (networks) return networks;
+
+    networks = new Map<string, NetworkConfig>([
+        ["mainnet", { name: "mainnet", ...vechainConfig.mainnet }],
+        ["testnet", { name: "testnet", ...vechainConfig.testnet }],
+    ]);
+
+    for (const [name, definition] of Object.entries(loadCustomNetworks())) {
+        const parsed = customNetworkSchema.safeParse(definition);
+
+        if (!parsed.success) {
+            console.error(`Ignoring custom network "${name}": ${parsed.error.message}`);
+            continue;
+        }
+
+        const { thorestApiBaseUrl, thorestApiBaseUrls, ...rest } = parsed.data;
+        const urls = thorestApiBaseUrls ?? (thorestApiBaseUrl ? [thorestApiBaseUrl] : []);
+
+        if (urls.length === 0) {
+            console.error(`Ignoring custom network "${name}": thorestApiBaseUrl or thorestApiBaseUrls is required`);
+            continue;
+        }
+
+        networks.set(name.toLowerCase(), {
+            name: name.toLowerCase(),
+            controllerAbortTimeout: vechainConfig.mainnet.controllerAbortTimeout,
+            ...rest,
+            thorestApiBaseUrls: urls,
+        } as NetworkConfig);
+    }
+
+    return networks;
+}
+
+export const defaultNetworkName = isMainnet ? "mainnet" : "testnet";
+
+export function resolveNetwork(name?: string): NetworkConfig {
+    const network = getNetworks().get((name ?? defaultNetworkName).toLowerCase());
+
+    if (!network) {
+        throw new ToolError("INVALID_INPUT", `Unknown network "${name}". Available: ${[...getNetworks().keys()].join(", ")}`);
+    }
+
+    return network;
+}
+
+export const networkSchema = z
+    .string()
+    .refine((name) => getNetworks().has(name.toLowerCase()), {
+        message: "Unknown network: use mainnet, testnet or a configured custom network",
+    })
+    .optional()
+    .describe("Network to query: mainnet | testnet | name of a custom network from VECHAIN_CUSTOM_NETWORKS. Defaults to the ENVIRONMENT network");
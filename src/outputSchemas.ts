@@ -0,0 +1,507 @@
+import z from "zod";
+
+/**
+ * Output schemas of the tools, as zod raw shapes for registerTool. They
+ * describe the structuredContent of successful calls; error results are
+ * returned with isError and are not validated.
+ */
+
+const blockRef = z.object({ id: z.string(), number: z.number() });
+
+const revision = z.union([z.string(), z.number()]);
+
+const event = z.object({
+    address: z.string(),
+    topics: z.array(z.string()),
+    data: z.string(),
+    decoded: z.unknown().optional(),
+});
+
+const transfer = z.object({
+    sender: z.string(),
+    recipient: z.string(),
+    amount: z.string(),
+});
+
+const clause = z.object({
+    to: z.string().nullable(),
+    value: z.string(),
+    data: z.string(),
+    decoded: z.unknown().optional(),
+});
+
+const subscription = {
+    subscriptionId: z.string(),
+    kind: z.enum(["block", "event", "transfer", "beat2"]),
+    network: z.string(),
+    filters: z.record(z.string()),
+    status: z.string(),
+    createdAt: z.string(),
+    lastBlock: blockRef.nullable(),
+    matches: z.number(),
+    buffered: z.number(),
+    reconnects: z.number(),
+    lastError: z.string().nullable(),
+    resourceUri: z.string(),
+};
+
+// Documentation
+
+export const docsSearchOutputSchema = {
+    source: z.enum(["remote", "cache", "snapshot"]),
+    content: z.array(z.unknown()).optional(),
+    note: z.string().optional(),
+    results: z.array(z.object({
+        title: z.string(),
+        url: z.string(),
+        score: z.number(),
+        excerpt: z.string(),
+    })).optional(),
+};
+
+export const docsPageOutputSchema = {
+    source: z.enum(["remote", "snapshot"]),
+    content: z.union([z.string(), z.array(z.unknown())]),
+    note: z.string().optional(),
+    title: z.string().optional(),
+    url: z.string().optional(),
+};
+
+export const docsProxyOutputSchema = {
+    content: z.array(z.unknown()).describe("Content blocks returned by the VeChain Docs tool"),
+    structuredContent: z.record(z.unknown()).optional().describe("Structured result of the VeChain Docs tool, if it returns one"),
+};
+
+// Networks and accounts
+
+export const networksOutputSchema = {
+    default: z.string(),
+    networks: z.array(z.object({
+        name: z.string(),
+        thorestApiBaseUrls: z.array(z.string()),
+        rpc: z.string().nullable(),
+        chainTag: z.string().nullable(),
+    })),
+};
+
+export const accountOutputSchema = {
+    balance: z.string().describe("VET balance in wei (hex)"),
+    energy: z.string().describe("VTHO balance in wei (hex)"),
+    hasCode: z.boolean(),
+};
+
+export const contractCallOutputSchema = {
+    address: z.string(),
+    function: z.string(),
+    data: z.string(),
+    revision,
+    reverted: z.boolean(),
+    outputs: z.unknown(),
+    revertReason: z.string().nullable(),
+    vmError: z.string().nullable(),
+    gasUsed: z.number(),
+    events: z.array(event),
+    transfers: z.array(transfer),
+    rawOutput: z.string(),
+};
+
+// Built-in contracts
+
+export const energyOutputSchema = {
+    address: z.string(),
+    block: blockRef,
+    vtho: z.string(),
+    vthoWei: z.string(),
+    vet: z.string(),
+    generation: z.object({
+        vthoPerDay: z.string(),
+        vthoPerVetPerDay: z.string(),
+    }),
+    vthoTotalSupply: z.string(),
+    vthoTotalBurned: z.string(),
+};
+
+export const chainParamsOutputSchema = {
+    block: blockRef,
+    executor: z.string(),
+    baseGasPrice: z.object({ wei: z.string(), vtho: z.string() }),
+    rewardRatio: z.object({ raw: z.string(), percent: z.number() }),
+    proposerEndorsement: z.object({ wei: z.string(), vet: z.string() }),
+    maxBlockProposers: z.number(),
+    extra: z.record(z.string()).optional(),
+};
+
+export const authorityNodesOutputSchema = {
+    block: blockRef,
+    count: z.number(),
+    activeCount: z.number(),
+    nodes: z.array(z.object({
+        nodeMaster: z.string(),
+        listed: z.boolean(),
+        endorsor: z.string(),
+        identity: z.string(),
+        active: z.boolean(),
+        endorsorVET: z.string().optional(),
+        endorsed: z.boolean().optional(),
+    })),
+};
+
+export const blockHistoryOutputSchema = {
+    block: blockRef,
+    blocks: z.array(z.object({
+        number: z.number(),
+        found: z.boolean(),
+        id: z.string().optional(),
+        signer: z.string().optional(),
+        totalScore: z.number().optional(),
+        timestamp: z.number().optional(),
+        time: z.string().optional(),
+    })),
+};
+
+// ABI registry
+
+export const registeredAbiOutputSchema = {
+    address: z.string(),
+    name: z.string().nullable(),
+    functions: z.number(),
+    events: z.number(),
+    errors: z.number(),
+    file: z.string(),
+};
+
+export const decodedCallOutputSchema = {
+    source: z.enum(["argument", "registered", "builtin", "signatures"]).optional(),
+    contract: z.string().nullable().optional(),
+    function: z.string().optional(),
+    signature: z.string().optional(),
+    args: z.record(z.unknown()).optional(),
+    message: z.string().optional().describe("Set when the data could not be decoded"),
+    selector: z.string().nullable().optional(),
+};
+
+export const decodedEventOutputSchema = {
+    source: z.enum(["argument", "registered", "builtin", "signatures"]).optional(),
+    contract: z.string().nullable().optional(),
+    event: z.string().optional(),
+    args: z.unknown(),
+    message: z.string().optional().describe("Set when the event could not be decoded"),
+    topic0: z.string().optional(),
+};
+
+// Transactions and receipts
+
+export const transactionOutputSchema = {
+    id: z.string().optional(),
+    type: z.number().nullable().optional(),
+    chainTag: z.number().optional(),
+    blockRef: z.string().optional(),
+    expiration: z.number().optional(),
+    clauses: z.array(clause).optional(),
+    gasPriceCoef: z.number().nullable().optional(),
+    maxFeePerGas: z.string().nullable().optional(),
+    maxPriorityFeePerGas: z.string().nullable().optional(),
+    gas: z.number().optional(),
+    origin: z.string().optional(),
+    delegator: z.string().nullable().optional(),
+    nonce: z.string().optional(),
+    dependsOn: z.string().nullable().optional(),
+    size: z.number().optional(),
+    raw: z.string().optional().describe("Raw transaction, when requested with raw"),
+    meta: z.object({
+        blockID: z.string(),
+        blockNumber: z.number(),
+        blockTimestamp: z.number(),
+    }).nullable().optional().describe("Null for pending transactions"),
+};
+
+export const receiptOutputSchema = {
+    txID: z.string(),
+    status: z.enum(["success", "reverted"]),
+    reverted: z.boolean(),
+    block: z.object({ id: z.string(), number: z.number(), timestamp: z.number() }),
+    origin: z.string(),
+    gasPayer: z.string(),
+    delegated: z.boolean(),
+    gasUsed: z.number(),
+    fees: z.object({
+        paidVTHO: z.string(),
+        rewardVTHO: z.string(),
+        burnedVTHO: z.string(),
+        paid: z.string(),
+        reward: z.string(),
+    }),
+    outputs: z.array(z.object({
+        clauseIndex: z.number(),
+        contractAddress: z.string().nullable(),
+        events: z.array(event),
+        transfers: z.array(transfer.extend({ amountVET: z.string() })),
+    })),
+    failure: z.object({
+        clauseIndex: z.number().nullable(),
+        revertReason: z.string().nullable(),
+        vmError: z.string().nullable(),
+        note: z.string(),
+    }).optional().describe("Replayed revert reason of a reverted transaction"),
+};
+
+export const waitForReceiptOutputSchema = {
+    ...z.object(receiptOutputSchema).partial().shape,
+    txID: z.string(),
+    status: z.enum(["success", "reverted", "expired", "timeout"]),
+    message: z.string().optional(),
+    lastValidBlock: z.number().nullable().optional(),
+    bestBlock: z.number().optional(),
+};
+
+export const builtTransactionOutputSchema = {
+    rawTransaction: z.string().describe("Unsigned raw transaction (hex)"),
+    type: z.enum(["legacy", "eip1559"]),
+    delegated: z.boolean(),
+    body: z.record(z.unknown()),
+    breakdown: z.object({
+        chainTag: z.string(),
+        blockRef: z.object({ value: z.string(), blockNumber: z.number() }),
+        expiration: z.object({ blocks: z.number(), lastValidBlock: z.number() }),
+        nonce: z.unknown(),
+        origin: z.string(),
+        gas: z.object({
+            intrinsic: z.number(),
+            execution: z.number(),
+            total: z.number(),
+            source: z.enum(["estimated", "provided"]),
+        }),
+        fees: z.record(z.unknown()),
+        clauses: z.array(z.object({
+            to: z.string(),
+            valueVET: z.string(),
+            data: z.string(),
+            function: z.string().nullable(),
+        })),
+    }),
+};
+
+export const sentTransactionOutputSchema = {
+    id: z.string(),
+    origin: z.string(),
+    blockRef: z.string(),
+    expiration: z.number(),
+    clauses: z.number().describe("Number of clauses"),
+};
+
+// Blocks and logs
+
+export const blockOutputSchema = {
+    number: z.number().optional(),
+    id: z.string().optional(),
+    size: z.number().optional(),
+    parentID: z.string().optional(),
+    timestamp: z.number().optional(),
+    gasLimit: z.number().optional(),
+    beneficiary: z.string().optional(),
+    gasUsed: z.number().optional(),
+    totalScore: z.number().optional(),
+    txsRoot: z.string().optional(),
+    txsFeatures: z.number().optional(),
+    stateRoot: z.string().optional(),
+    receiptsRoot: z.string().optional(),
+    com: z.boolean().optional(),
+    signer: z.string().optional(),
+    isTrunk: z.boolean().optional(),
+    isFinalized: z.boolean().optional(),
+    baseFeePerGas: z.string().optional(),
+    transactions: z.array(z.union([z.string(), z.record(z.unknown())])).optional().describe("Transaction IDs, or transactions when expanded"),
+    raw: z.string().optional().describe("RLP-encoded block, when requested with raw"),
+};
+
+export const eventLogsOutputSchema = {
+    logs: z.array(event.extend({ meta: z.record(z.unknown()) })),
+};
+
+export const transferLogsOutputSchema = {
+    transfers: z.array(transfer.extend({ meta: z.record(z.unknown()) })),
+};
+
+export const addressHistoryOutputSchema = {
+    address: z.string(),
+    network: z.string(),
+    filters: z.object({
+        direction: z.enum(["in", "out", "all"]),
+        counterparty: z.string().nullable(),
+        token: z.string().nullable(),
+        range: z.object({ unit: z.enum(["block", "time"]), from: z.number(), to: z.number() }).nullable(),
+    }),
+    order: z.enum(["asc", "desc"]),
+    offset: z.number(),
+    count: z.number(),
+    items: z.array(z.object({
+        type: z.enum(["vet_transfer", "token_transfer", "nft_transfer", "contract_event"]),
+        direction: z.enum(["in", "out", "self"]).describe("For contract events: out when the address signed the transaction"),
+        counterparty: z.string().describe("Other party of the transfer, or the contract that emitted the event"),
+        from: z.string().optional(),
+        to: z.string().optional(),
+        contract: z.string().optional(),
+        token: z.string().nullable().optional().describe("Token symbol; null when the contract is not a known VIP-180 token"),
+        amount: z.string().nullable().optional().describe("Amount formatted with the token decimals"),
+        amountInBaseUnits: z.string().optional(),
+        tokenId: z.string().optional(),
+        event: z.string().nullable().optional(),
+        args: z.unknown().optional(),
+        topics: z.array(z.string()).optional(),
+        data: z.string().optional(),
+        txID: z.string(),
+        txOrigin: z.string(),
+        clauseIndex: z.number(),
+        blockNumber: z.number(),
+        blockID: z.string(),
+        timestamp: z.number(),
+        time: z.string(),
+    })),
+    nextOffset: z.number().nullable().describe("Offset of the next page, null on the last page"),
+};
+
+// Fees
+
+export const priorityFeeOutputSchema = {
+    maxPriorityFeePerGas: z.string().describe("Suggested priority fee in wei (hex)"),
+};
+
+export const feeHistoryOutputSchema = {
+    oldestBlock: z.string().describe("ID of the oldest block of the history"),
+    baseFeePerGas: z.array(z.string()).describe("Base fee of each block in wei (hex), oldest first"),
+    gasUsedRatio: z.array(z.number()).describe("Gas used / gas limit of each block"),
+    reward: z.array(z.array(z.string())).optional().describe("Priority fees in wei (hex) paid at each requested percentile, per block"),
+};
+
+const vthoAmount = z.object({ wei: z.string(), vtho: z.string() });
+
+const speedFees = z.object({
+    maxFeePerGas: z.string().describe("Wei"),
+    maxPriorityFeePerGas: z.string().describe("Wei"),
+    expectedCost: vthoAmount.describe("Cost at the current base fee"),
+    maxCost: vthoAmount.describe("Cost at maxFeePerGas, the most the transaction can pay"),
+});
+
+export const feeEstimateOutputSchema = {
+    origin: z.string().describe("Caller of the gas estimation"),
+    block: blockRef,
+    gas: z.object({
+        intrinsic: z.number(),
+        execution: z.number(),
+        total: z.number(),
+        source: z.enum(["estimated", "provided"]),
+    }),
+    baseFeePerGas: z.string().nullable().describe("Base fee of the best block in wei; null before dynamic fees are active"),
+    legacy: z.object({
+        baseGasPrice: z.string().describe("Base gas price of the Params contract, in wei"),
+        gasPriceCoef: z.number(),
+        gasPrice: z.string().describe("baseGasPrice * (1 + gasPriceCoef / 255), in wei"),
+        totalCost: vthoAmount,
+        coversBaseFee: z.boolean().nullable().describe("Whether the legacy gas price reaches the current base fee"),
+    }),
+    dynamic: z.object({ slow: speedFees, normal: speedFees, fast: speedFees }).nullable().describe("Null before dynamic fees are active"),
+    history: z.object({
+        blocks: z.number(),
+        oldestBlock: z.string(),
+        percentiles: z.object({ slow: z.number(), normal: z.number(), fast: z.number() }),
+    }).optional().describe("Blocks the priority fees are derived from"),
+};
+
+// Subscriptions
+
+export const subscriptionOutputSchema = {
+    ...subscription,
+    notifications: z.boolean().optional(),
+    unsubscribed: z.boolean().optional(),
+};
+
+export const subscriptionsOutputSchema = {
+    subscriptions: z.array(z.object(subscription)),
+};
+
+export const subscriptionMatchesOutputSchema = {
+    ...subscription,
+    matches: z.array(z.object({
+        sequence: z.number(),
+        receivedAt: z.number(),
+        blockID: z.string().nullable(),
+        blockNumber: z.number().nullable(),
+        obsolete: z.boolean(),
+        data: z.record(z.unknown()),
+    })),
+    nextAfter: z.number(),
+};
+
+// Wallets and signatures
+
+export const accountsOutputSchema = {
+    defaultAccount: z.string().nullable(),
+    accounts: z.array(z.object({
+        name: z.string(),
+        address: z.string(),
+        source: z.enum(["secret-key", "keystore", "mnemonic"]),
+        derivationPath: z.string().nullable(),
+        default: z.boolean(),
+    })),
+};
+
+export const walletOutputSchema = {
+    mnemonic: z.array(z.string()),
+    secretKey: z.string().describe("Private key (hex)"),
+    secretKeyHex: z.string(),
+    publicKey: z.string().describe("Address of the derived key"),
+};
+
+export const certificateOutputSchema = {
+    purpose: z.string(),
+    payload: z.object({ type: z.string(), content: z.string() }),
+    domain: z.string(),
+    timestamp: z.number(),
+    signer: z.string(),
+    signature: z.string().optional(),
+};
+
+export const certificateVerificationOutputSchema = {
+    valid: z.boolean(),
+    recoveredSigner: z.string(),
+    checks: z.object({
+        signature: z.boolean(),
+        signer: z.boolean(),
+        domain: z.boolean(),
+        timestamp: z.boolean(),
+    }),
+    issuedAt: z.string(),
+    reasons: z.array(z.string()),
+    certificate: z.object(certificateOutputSchema),
+};
+
+export const signedTransactionOutputSchema = {
+    signedTransaction: z.string().describe("Signed raw transaction (hex)"),
+};
+
+export const delegatedTransactionOutputSchema = {
+    rawTransaction: z.string(),
+    delegated: z.boolean(),
+    body: z.record(z.unknown()),
+};
+
+export const originSignatureOutputSchema = {
+    rawTransaction: z.string().describe("Fully signed when the gas payer signature was given, else the unsigned transaction"),
+    origin: z.string(),
+    originSignature: z.string().optional(),
+    id: z.string().optional(),
+    gasPayer: z.string().optional(),
+};
+
+export const gasPayerSignatureOutputSchema = {
+    gasPayer: z.string(),
+    gasPayerSignature: z.string(),
+    origin: z.string(),
+    rawTransaction: z.string().nullable().describe("Fully signed raw transaction, when the origin signature was given"),
+};
+
+// GOAT SDK tools
+
+export const goatToolOutputSchema = {
+    result: z.unknown().describe("Value returned by the on-chain tool"),
+};
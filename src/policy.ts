@@ -0,0 +1,362 @@
+import type { TransactionClause } from "@vechain/sdk-core";
+import { decodeFunctionData, encodeFunctionData, formatUnits, parseUnits } from "viem";
+import { builtinContracts } from "./builtins.js";
+import { ToolError } from "./errors.js";
+import { resolveNetwork } from "./networks.js";
+import { resolveToken } from "./tokens.js";
+import { normalizeAddress, parseAbiInput, toJsonSafe } from "./utils.js";
+
+export interface SigningPolicy {
+    allowedRecipients: string[] | null;
+    allowedContracts: string[] | null;
+    allowedSpenders: string[] | null;
+    deniedSelectors: string[];
+    maxVetPerTransaction: bigint | null;
+    maxVthoPerTransaction: bigint | null;
+    maxVetPerDay: bigint | null;
+    maxVthoPerDay: bigint | null;
+    maxGas: number | null;
+    confirmVetAbove: bigint | null;
+    confirmVthoAbove: bigint | null;
+}
+
+export interface ClauseSummary {
+    index: number;
+    to: string | null;
+    description: string;
+    vet: bigint;
+    vtho: bigint;
+}
+
+export interface SigningReview {
+    clauses: ClauseSummary[];
+    totalVet: bigint;
+    totalVtho: bigint;
+    violations: string[];
+    needsConfirmation: boolean;
+}
+
+/**
+ * Asks the user to approve a transaction; resolves to false when they decline.
+ */
+export type SigningConfirmation = (message: string) => Promise<boolean>;
+
+export class SigningPolicyError extends ToolError {
+    constructor(
+        public readonly violations: string[],
+        public readonly clauses: ClauseSummary[],
+    ) {
+        super("POLICY_DENIED", `Signing policy denied the transaction: ${violations.join("; ")}`, {
+            violations,
+            clauses: toJsonSafe(clauses),
+        });
+        this.name = "SigningPolicyError";
+    }
+}
+
+const tokenAbi = parseAbiInput([
+    "function transfer(address to, uint256 amount) returns (bool)",
+    "function transferFrom(address from, address to, uint256 amount) returns (bool)",
+    "function approve(address spender, uint256 amount) returns (bool)",
+    "function increaseAllowance(address spender, uint256 addedValue) returns (bool)",
+    "function setApprovalForAll(address operator, bool approved)",
+    "function move(address from, address to, uint256 amount) returns (bool)",
+]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseAddressList(value: string | undefined): string[] | null {
+    const list = (value ?? "")
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .map(normalizeAddress);
+
+    return list.length > 0 ? list : null;
+}
+
+function parseAmount(value: string | undefined): bigint | null {
+    return value ? parseUnits(value, 18) : null;
+}
+
+export function getSigningPolicy(): SigningPolicy {
+    const maxGas = Number(process.env.SIGNING_MAX_GAS);
+
+    return {
+        allowedRecipients: parseAddressList(process.env.SIGNING_ALLOWED_RECIPIENTS),
+        allowedContracts: parseAddressList(process.env.SIGNING_ALLOWED_CONTRACTS),
+        allowedSpenders: parseAddressList(process.env.SIGNING_ALLOWED_SPENDERS),
+        deniedSelectors: (process.env.SIGNING_DENIED_SELECTORS ?? "")
+            .split(",")
+            .map((selector) => selector.trim().toLowerCase())
+            .filter(Boolean),
+        maxVetPerTransaction: parseAmount(process.env.SIGNING_MAX_VET_PER_TX),
+        maxVthoPerTransaction: parseAmount(process.env.SIGNING_MAX_VTHO_PER_TX),
+        maxVetPerDay: parseAmount(process.env.SIGNING_MAX_VET_PER_DAY),
+        maxVthoPerDay: parseAmount(process.env.SIGNING_MAX_VTHO_PER_DAY),
+        maxGas: Number.isFinite(maxGas) && maxGas > 0 ? maxGas : null,
+        confirmVetAbove: parseAmount(process.env.SIGNING_CONFIRM_VET_ABOVE),
+        confirmVthoAbove: parseAmount(process.env.SIGNING_CONFIRM_VTHO_ABOVE),
+    };
+}
+
+// Amounts approved over the last 24 hours, for the daily limits.
+const spendingHistory: Array<{ timestamp: number, vet: bigint, vtho: bigint }> = [];
+
+function spentToday(): { vet: bigint, vtho: bigint } {
+    const since = Date.now() - DAY_MS;
+
+    while (spendingHistory.length > 0 && spendingHistory[0]!.timestamp < since) {
+        spendingHistory.shift();
+    }
+
+    return spendingHistory.reduce(
+        (total, entry) => ({ vet: total.vet + entry.vet, vtho: total.vtho + entry.vtho }),
+        { vet: 0n, vtho: 0n },
+    );
+}
+
+function reserveSpending(vet: bigint, vtho: bigint) {
+    const entry = { timestamp: Date.now(), vet, vtho };
+    spendingHistory.push(entry);
+    return entry;
+}
+
+function releaseSpending(entry: { timestamp: number, vet: bigint, vtho: bigint }) {
+    const index = spendingHistory.indexOf(entry);
+    if (index !== -1) spendingHistory.splice(index, 1);
+}
+
+function reviewClause(clause: TransactionClause, index: number, policy: SigningPolicy, violations: string[]): ClauseSummary {
+    const to = clause.to ? normalizeAddress(clause.to) : null;
+    const vet = BigInt(clause.value || 0);
+    const data = clause.data && clause.data !== "0x" ? clause.data.toLowerCase() : null;
+    const isEnergy = to === builtinContracts.energy.address;
+
+    const summary: ClauseSummary = { index, to, description: "", vet, vtho: 0n };
+    const parts: string[] = [];
+
+    if (vet > 0n) {
+        parts.push(`send ${formatUnits(vet, 18)} VET to ${to ?? "a new contract"}`);
+    }
+
+    if (!to) {
+        parts.push("deploy a contract");
+        if (policy.allowedContracts) violations.push(`Clause ${index} deploys a contract, which is not allowed`);
+    } else if (!data) {
+        if (vet > 0n && policy.allowedRecipients && !policy.allowedRecipients.includes(to)) {
+            violations.push(`Clause ${index} sends VET to ${to}, which is not an allowed recipient`);
+        }
+    } else {
+        const selector = data.slice(0, 10);
+        let call: { functionName: string, args: readonly unknown[] } | null = null;
+
+        try {
+            const decoded = decodeFunctionData({ abi: tokenAbi, data: data as `0x${string}` });
+            call = { functionName: decoded.functionName, args: decoded.args ?? [] };
+        } catch {
+            call = null;
+        }
+
+        if (policy.deniedSelectors.includes(selector)) {
+            violations.push(`Clause ${index} calls denied function selector ${selector} on ${to}`);
+        }
+
+        if (policy.allowedContracts && !policy.allowedContracts.includes(to)) {
+            violations.push(`Clause ${index} calls ${to}, which is not an allowed contract`);
+        }
+
+        const token = isEnergy ? "VTHO" : `tokens of ${to}`;
+
+        if (call && (call.functionName === "transfer" || call.functionName === "transferFrom" || call.functionName === "move")) {
+            const [recipient, amount] = (call.functionName === "transfer" ? call.args : call.args.slice(1)) as [string, bigint];
+            const normalizedRecipient = normalizeAddress(recipient);
+
+            parts.push(`transfer ${isEnergy ? formatUnits(amount, 18) : amount.toString()} ${token} to ${normalizedRecipient}`);
+            if (isEnergy) summary.vtho = amount;
+
+            if (policy.allowedRecipients && !policy.allowedRecipients.includes(normalizedRecipient)) {
+                violations.push(`Clause ${index} transfers ${token} to ${normalizedRecipient}, which is not an allowed recipient`);
+            }
+        } else if (call && (call.functionName === "approve" || call.functionName === "increaseAllowance" || call.functionName === "setApprovalForAll")) {
+            const [spender, amount] = call.args as [string, bigint | boolean];
+            const normalizedSpender = normalizeAddress(spender);
+            const grants = amount !== 0n && amount !== false;
+
+            parts.push(`${call.functionName} ${normalizedSpender} for ${String(amount)} ${token}`);
+
+            if (grants && policy.allowedSpenders && !policy.allowedSpenders.includes(normalizedSpender)) {
+                violations.push(`Clause ${index} grants an allowance to ${normalizedSpender}, which is not an allowed spender`);
+            }
+        } else {
+            parts.push(`call function ${selector} on ${to}`);
+        }
+    }
+
+    summary.description = parts.join(", ") || `empty call to ${to}`;
+    return summary;
+}
+
+/**
+ * Checks `clauses` against the signing policy. The returned review lists the
+ * violations and whether the user must confirm the transaction.
+ */
+export function reviewTransaction(clauses: TransactionClause[], gas: number | null, policy: SigningPolicy = getSigningPolicy()): SigningReview {
+    const violations: string[] = [];
+    const summaries = clauses.map((clause, index) => reviewClause(clause, index, policy, violations));
+
+    const totalVet = summaries.reduce((total, clause) => total + clause.vet, 0n);
+    const totalVtho = summaries.reduce((total, clause) => total + clause.vtho, 0n);
+    const today = spentToday();
+
+    if (policy.maxVetPerTransaction !== null && totalVet > policy.maxVetPerTransaction) {
+        violations.push(`Transfers ${formatUnits(totalVet, 18)} VET, above the per-transaction limit of ${formatUnits(policy.maxVetPerTransaction, 18)} VET`);
+    }
+
+    if (policy.maxVthoPerTransaction !== null && totalVtho > policy.maxVthoPerTransaction) {
+        violations.push(`Transfers ${formatUnits(totalVtho, 18)} VTHO, above the per-transaction limit of ${formatUnits(policy.maxVthoPerTransaction, 18)} VTHO`);
+    }
+
+    if (policy.maxVetPerDay !== null && today.vet + totalVet > policy.maxVetPerDay) {
+        violations.push(`Would bring the VET sent in the last 24 hours to ${formatUnits(today.vet + totalVet, 18)}, above the daily limit of ${formatUnits(policy.maxVetPerDay, 18)} VET`);
+    }
+
+    if (policy.maxVthoPerDay !== null && today.vtho + totalVtho > policy.maxVthoPerDay) {
+        violations.push(`Would bring the VTHO sent in the last 24 hours to ${formatUnits(today.vtho + totalVtho, 18)}, above the daily limit of ${formatUnits(policy.maxVthoPerDay, 18)} VTHO`);
+    }
+
+    if (policy.maxGas !== null && gas !== null && gas > policy.maxGas) {
+        violations.push(`Gas ${gas} exceeds the maximum of ${policy.maxGas}`);
+    }
+
+    return {
+        clauses: summaries,
+        totalVet,
+        totalVtho,
+        violations,
+        needsConfirmation:
+            (policy.confirmVetAbove !== null && totalVet > policy.confirmVetAbove) ||
+            (policy.confirmVthoAbove !== null && totalVtho > policy.confirmVthoAbove),
+    };
+}
+
+export function formatReview(review: SigningReview): string {
+    return [
+        `Sign a transaction with ${review.clauses.length} clause(s), sending ${formatUnits(review.totalVet, 18)} VET and ${formatUnits(review.totalVtho, 18)} VTHO:`,
+        ...review.clauses.map((clause) => `${clause.index + 1}. ${clause.description}`),
+    ].join("\n");
+}
+
+/**
+ * Amounts of an approved transaction, held against the daily limits. Callers
+ * release them when signing or sending fails afterwards, so that failed
+ * attempts do not use up the limits.
+ */
+export interface SigningApproval {
+    review: SigningReview;
+    release: () => void;
+}
+
+/**
+ * Runs the signing policy before a transaction is signed: throws a
+ * SigningPolicyError on violations or when the user declines, and reserves the
+ * approved amounts towards the daily limits. The amounts are reserved as soon
+ * as the checks pass, before waiting for the user, so that concurrent calls
+ * cannot exceed the daily limits together; they are released if the user
+ * declines, or by the caller through the returned approval. Transactions above
+ * the confirmation threshold are only confirmed when `confirm` is available,
+ * i.e. when the client supports elicitation.
+ */
+export async function enforceSigningPolicy(clauses: TransactionClause[], gas: number | null, confirm?: SigningConfirmation): Promise<SigningApproval> {
+    const review = reviewTransaction(clauses, gas);
+
+    if (review.violations.length > 0) {
+        console.error(`Signing policy denied transaction: ${review.violations.join("; ")}`);
+        throw new SigningPolicyError(review.violations, review.clauses);
+    }
+
+    const reservation = reserveSpending(review.totalVet, review.totalVtho);
+    const release = () => releaseSpending(reservation);
+
+    if (review.needsConfirmation && confirm && !(await confirm(formatReview(review)))) {
+        release();
+        console.error("Signing declined by the user");
+        throw new SigningPolicyError(["The user declined to sign the transaction"], review.clauses);
+    }
+
+    return { review, release };
+}
+
+// GOAT wallet tools that sign messages or typed data (e.g. EIP-712 permits)
+// instead of transactions, which the clause rules cannot check.
+const messageSigningTools = new Set(["sign_message", "sign_typed_data_evm"]);
+
+export function isMessageSigningTool(toolName: string): boolean {
+    return messageSigningTools.has(toolName);
+}
+
+export function isSigningPolicyConfigured(policy: SigningPolicy = getSigningPolicy()): boolean {
+    return Object.values(policy).some((rule) => Array.isArray(rule) ? rule.length > 0 : rule !== null);
+}
+
+/**
+ * Runs before the GOAT message signing tools: a signature can grant
+ * allowances (permits) the signing policy cannot check, so they are denied
+ * when a signing policy is configured, and otherwise signed only once the
+ * user approves the message, when the client supports elicitation.
+ */
+export async function enforceMessageSigningPolicy(toolName: string, args: Record<string, unknown>, confirm?: SigningConfirmation): Promise<void> {
+    if (isSigningPolicyConfigured()) {
+        console.error(`Signing policy denied ${toolName}: message signatures cannot be checked against the policy`);
+        throw new SigningPolicyError([`${toolName} is not allowed while a signing policy is configured`], []);
+    }
+
+    if (confirm && !(await confirm(`Sign with ${toolName}:\n${JSON.stringify(args, null, 2)}`))) {
+        console.error("Signing declined by the user");
+        throw new SigningPolicyError(["The user declined to sign the message"], []);
+    }
+}
+
+/**
+ * Clauses sent by the GOAT wallet tools that submit transactions, or null for
+ * tools that do not. VIP-180 plugin tools name tokens by symbol or address and
+ * take amounts in token units, so they are resolved like the plugin does.
+ */
+export async function goatToolClauses(toolName: string, args: Record<string, any>): Promise<TransactionClause[] | null> {
+    const tokenClause = async (functionName: "transfer" | "approve" | "transferFrom", addresses: string[]): Promise<TransactionClause[]> => {
+        const token = await resolveToken(resolveNetwork(), args.token);
+        const amount = parseUnits(args.amount, token.decimals);
+
+        return [{
+            to: token.address,
+            value: 0,
+            data: encodeFunctionData({ abi: tokenAbi, functionName, args: [...addresses.map(normalizeAddress), amount] }),
+        }];
+    };
+
+    switch (toolName) {
+        case "send_token":
+            return [args.tokenAddress
+                ? {
+                    to: args.tokenAddress,
+                    value: 0,
+                    data: encodeFunctionData({ abi: tokenAbi, functionName: "transfer", args: [args.recipient, BigInt(args.amountInBaseUnits)] }),
+                }
+                : { to: args.recipient, value: BigInt(args.amountInBaseUnits).toString(), data: "0x" }];
+        case "approve_token_evm":
+        case "revoke_token_approval_evm":
+            return [{
+                to: args.tokenAddress,
+                value: 0,
+                data: encodeFunctionData({ abi: tokenAbi, functionName: "approve", args: [args.spender, BigInt(args.amount ?? 0)] }),
+            }];
+        case "vip180_transfer":
+            return tokenClause("transfer", [args.to]);
+        case "vip180_approve":
+            return tokenClause("approve", [args.spender]);
+        case "vip180_transfer_from":
+            return tokenClause("transferFrom", [args.from, args.to]);
+        default:
+            return null;
+    }
+}
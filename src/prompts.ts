@@ -0,0 +1,130 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import z from "zod";
+import { builtinContracts } from "./builtins.js";
+import { defaultNetworkName } from "./networks.js";
+
+// keccak256("Transfer(address,address,uint256)")
+const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+const networkArg = z
+    .string()
+    .optional()
+    .describe(`Network: mainnet | testnet | custom network name. Default: ${defaultNetworkName}`);
+
+function userPrompt(text: string): GetPromptResult {
+    return {
+        messages: [{
+            role: "user",
+            content: { type: "text", text },
+        }],
+    };
+}
+
+function networkLine(network: string | undefined): string {
+    return `Pass network "${network ?? defaultNetworkName}" to every tool call.`;
+}
+
+/**
+ * Registers prompts that walk the model through the tools for common
+ * workflows. Prompts that sign are skipped in read-only mode.
+ */
+export function registerVechainPrompts(server: McpServer, { readOnly }: { readOnly: boolean }) {
+    server.registerPrompt(
+        "investigate_transaction",
+        {
+            title: "Investigate a transaction",
+            description: "Explain what a transaction did: status, fees, decoded clauses, events and transfers",
+            argsSchema: {
+                id: z.string().describe("Transaction ID (0x + 64 hex)"),
+                abi: z.string().optional().describe("Optional ABI (JSON or human-readable signatures) of the called contract, to decode events"),
+                network: networkArg,
+            },
+        },
+        ({ id, abi, network }) => userPrompt([
+            `Investigate VeChain transaction ${id}. ${networkLine(network)}`,
+            "",
+            `1. Call get_transaction with id "${id}" and pending true. If it is not found, say so and stop.`,
+            `2. Call get_transaction_receipt with id "${id}"${abi ? ` and abi ${JSON.stringify(abi)}` : ""}. A null receipt means the transaction is still pending: say so.`,
+            `3. For each clause, describe the target (built-in contract, other contract or plain account), the VET value, and the called function with its arguments, from the decoded view of the clause.${abi ? " For clauses that are not decoded, call decode_calldata with the given ABI." : " Clauses that are not decoded call a contract with an unknown ABI: give the 4-byte selector (first bytes of data) and say so."}`,
+            "4. Summarize the outcome: success or reverted (with the revert reason), gas used, fees paid in VTHO, who paid them (origin or a VIP-191 gas payer), and the decoded events and VET transfers of every clause.",
+            "",
+            "Answer with a short plain-language summary first, then the details per clause. Do not guess values that the tools did not return.",
+        ].join("\n")),
+    );
+
+    server.registerPrompt(
+        "audit_account",
+        {
+            title: "Audit an account",
+            description: "Review an account: balances, whether it is a contract, and its recent VET and VTHO transfers",
+            argsSchema: {
+                address: z.string().describe("Account or contract address"),
+                limit: z.string().optional().describe("Number of recent transfers to review. Default: 20"),
+                network: networkArg,
+            },
+        },
+        ({ address, limit, network }) => {
+            const count = Number(limit) > 0 ? Number(limit) : 20;
+            const paddedAddress = `0x${address.toLowerCase().replace(/^0x/, "").padStart(64, "0")}`;
+
+            return userPrompt([
+                `Audit VeChain account ${address}. ${networkLine(network)}`,
+                "",
+                `1. Call get_account with address "${address}" to get its VET balance, VTHO energy and whether it has code.`,
+                "2. If it has code, it is a contract: note it, and check whether it is one of the built-in contracts (see the vechain://builtin-contracts resource).",
+                `3. Call filter_transfers with order "desc", limit ${count} and criteriaSet [{"sender": "${address}"}, {"recipient": "${address}"}] for its most recent VET transfers.`,
+                `4. Call filter_events with order "desc", limit ${count} and criteriaSet [{"address": "${builtinContracts.energy.address}", "topic0": "${TRANSFER_TOPIC}", "topic1": "${paddedAddress}"}, {"address": "${builtinContracts.energy.address}", "topic0": "${TRANSFER_TOPIC}", "topic2": "${paddedAddress}"}] for its most recent VTHO transfers.`,
+                "",
+                "Report the balances with units, the account type, and a table of the recent transfers (direction, counterparty, amount, block, transaction ID). Point out anything unusual: large or repeated transfers, transfers to contracts, or an empty history.",
+            ].join("\n"));
+        },
+    );
+
+    server.registerPrompt(
+        "explain_block",
+        {
+            title: "Explain a block",
+            description: "Describe a block: producer, timing, gas usage and the transactions it contains",
+            argsSchema: {
+                revision: z.string().optional().describe("Block number, block ID, or best | justified | finalized. Default: best"),
+                network: networkArg,
+            },
+        },
+        ({ revision, network }) => userPrompt([
+            `Explain VeChain block ${revision ?? "best"}. ${networkLine(network)}`,
+            "",
+            `1. Call get_block with revision "${revision ?? "best"}" and expanded true.`,
+            "2. Describe the block: number, ID, timestamp (as UTC date), signer, gas used against the gas limit, base fee when present, and whether it is finalized.",
+            "3. List its transactions with origin, number of clauses, gas used, whether they reverted, and whether they were delegated (gas payer different from origin).",
+            "4. For the transactions that look notable (reverted, many clauses, large VET transfers), call get_transaction_receipt to explain them.",
+            "",
+            "Start with a two-sentence overview, then the details.",
+        ].join("\n")),
+    );
+
+    if (readOnly) return;
+
+    server.registerPrompt(
+        "prepare_vet_transfer",
+        {
+            title: "Prepare a VET transfer",
+            description: "Build, review, sign and send a VET transfer, with an explicit confirmation before signing",
+            argsSchema: {
+                to: z.string().describe("Recipient address"),
+                amount: z.string().describe("Amount of VET to send, e.g. 1.5"),
+                account: z.string().optional().describe("Signing account (see list_accounts). Default: the default account"),
+                network: networkArg,
+            },
+        },
+        ({ to, amount, account, network }) => userPrompt([
+            `Prepare a transfer of ${amount} VET to ${to}${account ? ` from account "${account}"` : ""}. ${networkLine(network)}`,
+            "",
+            "1. Call list_accounts to find the sending address, then get_account on it to check it holds enough VET for the amount and VTHO for the fee.",
+            `2. Convert ${amount} VET to wei (multiply by 10^18, as a decimal string) and call build_transaction with one clause {"to": "${to}", "value": "<wei>"} and the sending address as origin.`,
+            "3. Review: show the recipient, the amount in VET and wei, the gas, the estimated fee and the expiration. Ask the user to confirm and wait for an explicit yes. Stop if they do not confirm or anything looks wrong.",
+            `4. Call sign_raw_transaction with the rawTransaction${account ? ` and account "${account}"` : ""}. If the signing policy denies it, report the violations and stop.`,
+            "5. Call send_transaction with the signed transaction, then wait_for_receipt with the returned ID, and report the outcome and fees.",
+        ].join("\n")),
+    );
+}
@@ -0,0 +1,198 @@
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema, type ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { decorateTransaction } from "./abiRegistry.js";
+import { builtinContracts } from "./builtins.js";
+import { vechainConfig } from "./config.js";
+import { ToolError } from "./errors.js";
+import { defaultNetworkName, getNetworks, resolveNetwork } from "./networks.js";
+import { getSubscription } from "./subscriptions.js";
+import { thorestRequest } from "./thorest.js";
+import { REVISION } from "./types.js";
+
+function jsonContents(uri: URL, data: unknown): ReadResourceResult {
+    return {
+        contents: [{
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(data, null, 2),
+        }],
+    };
+}
+
+function variable(variables: Variables, name: string): string {
+    const value = variables[name];
+    return decodeURIComponent(Array.isArray(value) ? value[0] ?? "" : value ?? "");
+}
+
+function validate(value: string, regex: RegExp, label: string): string {
+    if (!regex.test(value)) {
+        throw new ToolError("INVALID_INPUT", `Invalid ${label}: ${value}`);
+    }
+
+    return value;
+}
+
+function template(uriTemplate: string) {
+    return new ResourceTemplate(uriTemplate, {
+        list: undefined,
+        complete: {
+            network: (value) => [...getNetworks().keys()].filter((name) => name.startsWith(value.toLowerCase())),
+        },
+    });
+}
+
+/**
+ * Handles resources/subscribe and resources/unsubscribe, and returns the URIs
+ * the client subscribed to, which are the only ones to send
+ * notifications/resources/updated for.
+ */
+export function trackResourceSubscriptions(server: McpServer): Set<string> {
+    const subscribed = new Set<string>();
+
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        subscribed.add(request.params.uri);
+        return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscribed.delete(request.params.uri);
+        return {};
+    });
+
+    return subscribed;
+}
+
+/**
+ * Registers chain objects as MCP resources, read through the same Thorest
+ * calls as the tools, plus static resources for the configured networks and
+ * the built-in contracts, and the subscriptions of `subscriptionOwner`.
+ */
+export function registerVechainResources(server: McpServer, subscriptionOwner?: string) {
+    server.registerResource(
+        "networks",
+        "vechain://networks",
+        {
+            title: "Networks",
+            description: "Configured networks (mainnet, testnet and custom networks) with their Thorest nodes, RPC URL and chain tag",
+            mimeType: "application/json",
+        },
+        async (uri) => jsonContents(uri, {
+            defaultNetwork: defaultNetworkName,
+            networks: [...getNetworks().values()].map((network) => ({
+                name: network.name,
+                thorestApiBaseUrls: network.thorestApiBaseUrls,
+                rpc: network.rpc ?? null,
+                chainTag: network.chainTag ?? null,
+                controllerAbortTimeout: network.controllerAbortTimeout,
+            })),
+        }),
+    );
+
+    server.registerResource(
+        "builtin-contracts",
+        "vechain://builtin-contracts",
+        {
+            title: "Built-in contracts",
+            description: "Addresses of the VeChainThor built-in contracts (Energy/VTHO, Params, Authority, Extension, Prototype), the same on every network",
+            mimeType: "application/json",
+        },
+        async (uri) => jsonContents(
+            uri,
+            Object.values(builtinContracts).map(({ name, address }) => ({ name, address })),
+        ),
+    );
+
+    server.registerResource(
+        "block",
+        template("vechain://{network}/block/{revision}"),
+        {
+            title: "Block",
+            description: "Block by revision: best | justified | finalized | block number | block ID",
+            mimeType: "application/json",
+        },
+        async (uri, variables) => {
+            const network = resolveNetwork(variable(variables, "network"));
+            const revision = variable(variables, "revision") || REVISION.Best;
+            const block = await thorestRequest<Record<string, unknown> | null>(network, `/blocks/${encodeURIComponent(revision)}`, { revision });
+
+            if (!block) {
+                throw new ToolError("NOT_FOUND", `Block ${revision} not found on ${network.name}`);
+            }
+
+            return jsonContents(uri, block);
+        },
+    );
+
+    server.registerResource(
+        "account",
+        template("vechain://{network}/account/{address}"),
+        {
+            title: "Account",
+            description: "Account balance (VET), energy (VTHO) and whether it is a contract, at the best block",
+            mimeType: "application/json",
+        },
+        async (uri, variables) => {
+            const network = resolveNetwork(variable(variables, "network"));
+            const address = validate(variable(variables, "address"), vechainConfig.general.addressRegex, "address");
+            const account = await thorestRequest<Record<string, unknown>>(network, `/accounts/${address}`);
+
+            return jsonContents(uri, { address, ...account });
+        },
+    );
+
+    server.registerResource(
+        "transaction",
+        template("vechain://{network}/tx/{id}"),
+        {
+            title: "Transaction",
+            description: "Transaction and its receipt (null while pending) by transaction ID",
+            mimeType: "application/json",
+        },
+        async (uri, variables) => {
+            const network = resolveNetwork(variable(variables, "network"));
+            const id = validate(variable(variables, "id"), vechainConfig.general.txidRegex, "transaction ID");
+
+            const [transaction, receipt] = await Promise.all([
+                thorestRequest<Record<string, unknown> | null>(network, `/transactions/${id}?pending=true`),
+                thorestRequest<Record<string, unknown> | null>(network, `/transactions/${id}/receipt`),
+            ]);
+
+            if (!transaction) {
+                throw new ToolError("NOT_FOUND", `Transaction ${id} not found on ${network.name}`);
+            }
+
+            return jsonContents(uri, { transaction: decorateTransaction(transaction), receipt: receipt ? decorateTransaction(receipt) : null });
+        },
+    );
+
+    server.registerResource(
+        "contract-code",
+        template("vechain://{network}/contract/{address}/code"),
+        {
+            title: "Contract code",
+            description: "Deployed bytecode of a contract at the best block (0x for accounts without code)",
+            mimeType: "application/json",
+        },
+        async (uri, variables) => {
+            const network = resolveNetwork(variable(variables, "network"));
+            const address = validate(variable(variables, "address"), vechainConfig.general.addressRegex, "address");
+            const { code } = await thorestRequest<{ code: string }>(network, `/accounts/${address}/code`);
+
+            return jsonContents(uri, { address, code });
+        },
+    );
+    server.registerResource(
+        "subscription",
+        new ResourceTemplate("vechain://subscriptions/{id}", { list: undefined }),
+        {
+            title: "Subscription matches",
+            description: "Status and buffered recent matches of a live subscription created with subscribe",
+            mimeType: "application/json",
+        },
+        async (uri, variables) => {
+            const subscription = getSubscription(variable(variables, "id"), subscriptionOwner);
+            return jsonContents(uri, { ...subscription.describe(), recentMatches: subscription.buffer });
+        },
+    );
+}
@@ -1,17 +1,133 @@
-import express, { type Request, type Response } from "express";
+import { randomUUID } from "node:crypto";
+import express, { type Express, type Request, type Response } from "express";
 import cors from "cors";
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { CallToolRequestSchema, isInitializeRequest, type CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 
-import { z, type ZodRawShape } from "zod";
+import { z, type ZodRawShape, type ZodTypeAny } from "zod";
 
 import { vechainConfig } from "./config.js";
 import { toolsPromise, vechainTools } from "./tools.js";
+import { onDocsProxyTools } from "./client.js";
 import { buildToolZodMap, parseToolInput } from "./utils.js";
+import { InMemoryEventStore } from "./eventStore.js";
+import { authenticate, getApiKeys, isAuthEnabled, isToolAllowed, type ApiKey } from "./auth.js";
+import { enforceMessageSigningPolicy, enforceSigningPolicy, goatToolClauses, isMessageSigningTool, isSigningPolicyConfigured, type SigningApproval } from "./policy.js";
+import type { ToolContext, ToolResult, VeChainTool } from "./types.js";
+import { toolError } from "./errors.js";
+import { isReadOnlyMode } from "./accounts.js";
+import { registerVechainResources, trackResourceSubscriptions } from "./resources.js";
+import { registerVechainPrompts } from "./prompts.js";
+import { closeSubscriptions } from "./subscriptions.js";
+import { goatToolOutputSchema } from "./outputSchemas.js";
+
+function toCallToolResult(result: ToolResult) {
+  return {
+    content: result.content.map(item => ({
+      ...item,
+      type: "text" as const
+    })),
+    ...(result.structuredContent ? { structuredContent: result.structuredContent } : {}),
+    ...(result.isError ? { isError: true } : {})
+  };
+}
+
+/**
+ * Value returned by a GOAT tool: the handler wraps it as JSON in a text
+ * content block.
+ */
+function goatToolValue(result: unknown): unknown {
+  const text = (result as { content?: Array<{ text?: string }> } | undefined)?.content?.[0]?.text;
+  if (text === undefined) return result ?? null;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+type RequestHandler = (request: unknown, extra: unknown) => Promise<unknown>;
+
+/**
+ * Reports invalid tool arguments as INVALID_INPUT tool results, like the other
+ * tool errors, instead of the JSON-RPC error the SDK answers with: the
+ * arguments are checked against `inputSchemas` before the SDK handler of
+ * tools/call runs. Must be called once the first tool is registered, which
+ * installs that handler; without tools there is nothing to check.
+ */
+function reportInvalidArguments(server: McpServer, inputSchemas: Map<string, ZodTypeAny>) {
+  // The SDK offers no way to wrap its handler, so it is read from the protocol.
+  const handlers = (server.server as unknown as { _requestHandlers: Map<string, RequestHandler> })._requestHandlers;
+  const callTool = handlers.get(CallToolRequestSchema.shape.method.value);
+  if (!callTool) return;
+
+  server.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    try {
+      parseToolInput(inputSchemas, request.params.name, request.params.arguments);
+    } catch (err) {
+      return toCallToolResult(toolError(err, `Invalid arguments for ${request.params.name}`));
+    }
+
+    return await callTool(request, extra) as CallToolResult;
+  });
+}
+
+/**
+ * Lets tools reach the connected client: signing tools ask the user to confirm
+ * a transaction through MCP elicitation, when the client supports it, and
+ * subscriptions push chain activity as notifications.
+ */
+function createToolContext(server: McpServer, subscribedResources: Set<string>, subscriptionOwner?: string): ToolContext {
+  const notify = async (uri: string, data: unknown) => {
+    if (subscribedResources.has(uri)) {
+      await server.server.sendResourceUpdated({ uri });
+    }
+
+    await server.sendLoggingMessage({ level: "info", logger: "vechain-subscriptions", data }, server.server.transport?.sessionId);
+  };
+
+  const context = { notify, ...(subscriptionOwner ? { subscriptionOwner } : {}) };
+
+  if (!server.server.getClientCapabilities()?.elicitation) return context;
+
+  return {
+    ...context,
+    confirm: async (message: string) => {
+      const result = await server.server.elicitInput({
+        message,
+        requestedSchema: {
+          type: "object",
+          properties: {
+            approve: {
+              type: "boolean",
+              title: "Sign this transaction",
+              description: "Approve signing the transaction described above",
+            },
+          },
+          required: ["approve"],
+        },
+      });
+
+      return result.action === "accept" && result.content?.approve === true;
+    },
+  };
+}
+
+/**
+ * Creates an MCP server exposing only the tools allowed for `apiKey`, so
+ * restricted keys never see the others in tools/list. In read-only mode only
+ * the read tools are registered, and the GOAT wallet tools are skipped.
+ * Subscriptions belong to `subscriptionOwner` and are closed with the server;
+ * without an owner (stateless mode) subscribe is refused.
+ */
+async function createVechainServer(apiKey?: ApiKey, subscriptionOwner?: string) {
+  const readOnly = await isReadOnlyMode();
+  const capabilitySet = readOnly ? "read-only" : "full";
 
-async function createVechainServer() {
   const server = new McpServer(
     {
       name: vechainConfig.mcpServer.name,
@@ -20,18 +136,37 @@ async function createVechainServer() {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+        logging: {},
+        experimental: {
+          vechain: { capabilitySet, signing: !readOnly },
+        },
       },
+      instructions: readOnly
+        ? "VeChain MCP server in read-only mode: chain queries, documentation search and simulation only. No signing account is available."
+        : "VeChain MCP server with signing enabled: chain queries, documentation search, simulation, wallet and signing tools.",
     },
   );
 
+  const subscribedResources = trackResourceSubscriptions(server);
+  const inputSchemas = new Map<string, ZodTypeAny>();
+
   // Goat SDK On-Chain Tools
 
-  const { listOfTools, toolHandler } = await toolsPromise();
+  const { listOfTools, toolHandler } = readOnly
+    ? { listOfTools: () => [], toolHandler: async () => undefined }
+    : await toolsPromise();
   const vechainGoatSdkTools = listOfTools();
   const toolSchemaMap = buildToolZodMap(vechainGoatSdkTools);
 
   for (const t of vechainGoatSdkTools) {
+    if (!isToolAllowed(apiKey, t.name)) continue;
+    // Message signatures cannot be checked against the signing policy.
+    if (isMessageSigningTool(t.name) && isSigningPolicyConfigured()) continue;
+
     const zodSchema = toolSchemaMap.get(t.name) ?? z.object({});
+    inputSchemas.set(t.name, zodSchema);
 
     let inputShape: ZodRawShape = {};
 
@@ -55,72 +190,209 @@ async function createVechainServer() {
         title: t.name,
         description: t.description ?? "",
         inputSchema: inputShape,
+        outputSchema: goatToolOutputSchema,
       },
       async (args) => {
-        const parsedArgs = parseToolInput(toolSchemaMap, t.name, args);
-        const result = await toolHandler(t.name, parsedArgs);
-        return {
-          content: [{
-            type: "text" as const,
-            text: JSON.stringify(result, null, 2)
-          }]
-        };
+        let approval: SigningApproval | undefined;
+
+        try {
+          const parsedArgs = parseToolInput(toolSchemaMap, t.name, args);
+          const confirm = createToolContext(server, subscribedResources, subscriptionOwner).confirm;
+          const clauses = await goatToolClauses(t.name, parsedArgs as Record<string, any>);
+
+          if (clauses) {
+            approval = await enforceSigningPolicy(clauses, null, confirm);
+          } else if (isMessageSigningTool(t.name)) {
+            await enforceMessageSigningPolicy(t.name, parsedArgs as Record<string, unknown>, confirm);
+          }
+
+          const result = await toolHandler(t.name, parsedArgs);
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify(result, null, 2)
+            }],
+            structuredContent: { result: goatToolValue(result) }
+          };
+        } catch (err) {
+          // Failed transactions do not count towards the daily limits.
+          approval?.release();
+          return toCallToolResult(toolError(err, `Failed to run ${t.name}`));
+        }
       }
     );
   }
 
   // Thorest API Tools & Custom Tools
 
-  for (const t of vechainTools) {
+  const registerTool = (t: VeChainTool) => {
+    if (!isToolAllowed(apiKey, t.name)) return;
+    if (readOnly && !t.annotations?.readOnlyHint) return;
+
+    inputSchemas.set(t.name, z.object(t.inputSchema));
     server.registerTool(
       t.name,
       {
         title: t.name,
         description: t.description,
-        inputSchema: t.inputSchema
+        inputSchema: t.inputSchema,
+        ...(t.outputSchema ? { outputSchema: t.outputSchema } : {}),
+        ...(t.annotations ? { annotations: t.annotations } : {}),
       },
       async (args) => {
-        const result = await t.callback(args);
-        return {
-          content: result.content.map(item => ({
-            ...item,
-            type: "text" as const
-          }))
-        };
+        try {
+          return toCallToolResult(await t.callback(args, createToolContext(server, subscribedResources, subscriptionOwner)));
+        } catch (err) {
+          return toCallToolResult(toolError(err, `Failed to run ${t.name}`));
+        }
       }
     );
-  }
+  };
+
+  vechainTools.forEach(registerTool);
+  reportInvalidArguments(server, inputSchemas);
+
+  // The docs proxy tools are added once the docs server has listed them;
+  // registering a tool on a connected server sends tools/list_changed.
+  const stopDocsTools = onDocsProxyTools((tools) => tools.forEach(registerTool));
+
+  server.server.onclose = () => {
+    stopDocsTools();
+    if (subscriptionOwner) closeSubscriptions(subscriptionOwner);
+  };
+
+  // Chain data resources
+
+  registerVechainResources(server, subscriptionOwner);
+
+  // Workflow prompts
+
+  registerVechainPrompts(server, { readOnly });
 
   return server;
 }
 
-export async function start() {
-  const useStreamHttp = process.env.USE_STREAMABLE_HTTP === "true";
-  const useStdIO = !useStreamHttp;
-  const port = Number(process.env.PORT || 3000);
-  const host = process.env.HOST || "0.0.0.0";
-  const server = await createVechainServer();
+interface McpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  apiKeyName: string | undefined;
+  lastActivity: number;
+}
 
-  if (useStdIO) {
-    const transport = new StdioServerTransport();
+function sendJsonRpcError(res: Response, status: number, code: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: {
+      code,
+      message,
+    },
+    id: null,
+  });
+}
+
+function registerStatefulRoutes(app: Express) {
+  const sessions = new Map<string, McpSession>();
+  const idleTimeout = Number(process.env.MCP_SESSION_IDLE_TIMEOUT_MS || vechainConfig.mcpServer.sessionIdleTimeout);
+
+  // A session can only be used with the API key that initialized it.
+  const getSession = (req: Request, res: Response) => {
+    const sessionId = req.headers["mcp-session-id"];
+    const session = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+    return session?.apiKeyName === (res.locals.apiKey as ApiKey | undefined)?.name ? session : undefined;
+  };
+
+  const createSession = async (apiKey: ApiKey | undefined): Promise<McpSession> => {
+    // Subscriptions belong to the session and are closed with it.
+    const server = await createVechainServer(apiKey, randomUUID());
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      enableDnsRebindingProtection: true,
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new InMemoryEventStore(vechainConfig.mcpServer.maxEventsPerStream),
+      onsessioninitialized: (sessionId) => {
+        console.log(`Session initialized: ${sessionId}`);
+        sessions.set(sessionId, session);
+      },
+      onsessionclosed: (sessionId) => {
+        console.log(`Session closed: ${sessionId}`);
+        sessions.delete(sessionId);
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    const session: McpSession = { server, transport, apiKeyName: apiKey?.name, lastActivity: Date.now() };
     await server.connect(transport);
-    console.log("VeChain MCP Server running on stdio");
-    console.log(`Mode: ${process.env.ENVIRONMENT === "MAINNET" ? "Mainnet" : "Testnet"}`);
-    return;
-  }
+    return session;
+  };
 
-  const app = express();
-  app.use(express.json());
+  app.post("/mcp", async (req: Request, res: Response) => {
+    try {
+      let session = getSession(req, res);
 
-  app.use(
-    cors({
-      origin: "*",
-      allowedHeaders: ["Content-Type", "mcp-session-id"],
-    })
-  );
+      if (!session) {
+        if (req.headers["mcp-session-id"]) {
+          sendJsonRpcError(res, 404, -32001, "Session not found.");
+          return;
+        }
+
+        if (!isInitializeRequest(req.body)) {
+          sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided.");
+          return;
+        }
+
+        session = await createSession(res.locals.apiKey);
+      }
+
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
 
+  // GET opens the server-to-client SSE stream (resumable with Last-Event-ID),
+  // DELETE terminates the session.
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    console.log(`Received ${req.method} MCP request`);
+    const session = getSession(req, res);
+
+    if (!session) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided.");
+      return;
+    }
+
+    session.lastActivity = Date.now();
+    await session.transport.handleRequest(req, res);
+  };
+
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
+  setInterval(() => {
+    const now = Date.now();
+
+    for (const [sessionId, session] of sessions) {
+      if (now - session.lastActivity > idleTimeout) {
+        console.log(`Session expired: ${sessionId}`);
+        sessions.delete(sessionId);
+        session.server.close().catch((err) => console.error(`Error closing session ${sessionId}:`, err));
+      }
+    }
+  }, vechainConfig.mcpServer.sessionSweepInterval).unref();
+}
+
+function registerStatelessRoutes(app: Express) {
+  // Each request gets its own server and transport, built for its API key, so
+  // concurrent requests never share a connection.
   app.post("/mcp", async (req: Request, res: Response) => {
     try {
+      const server = await createVechainServer(res.locals.apiKey);
       const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
         enableDnsRebindingProtection: true,
         sessionIdGenerator: undefined,
@@ -137,14 +409,7 @@ export async function start() {
     } catch (error) {
       console.error('Error handling MCP request:', error);
       if (!res.headersSent) {
-        res.status(500).json({
-          jsonrpc: '2.0',
-          error: {
-            code: -32603,
-            message: 'Internal server error',
-          },
-          id: null,
-        });
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
       }
     }
   });
@@ -172,11 +437,57 @@ export async function start() {
       id: null
     }));
   });
+}
+
+export async function start() {
+  const useStreamHttp = process.env.USE_STREAMABLE_HTTP === "true";
+  const useStdIO = !useStreamHttp;
+  const useStatefulSessions = process.env.MCP_STATEFUL_SESSIONS === "true";
+  const port = Number(process.env.PORT || 3000);
+  const host = process.env.HOST || "0.0.0.0";
+  const readOnly = await isReadOnlyMode();
+
+  if (useStdIO) {
+    const server = await createVechainServer(undefined, "stdio");
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+    // stdout carries the JSON-RPC stream in stdio mode.
+    console.error("VeChain MCP Server running on stdio");
+    console.error(`Mode: ${process.env.ENVIRONMENT === "MAINNET" ? "Mainnet" : "Testnet"}`);
+    console.error(`Capabilities: ${readOnly ? "read-only" : "full"}`);
+    return;
+  }
+
+  const app = express();
+  app.use(express.json());
+
+  app.use(
+    cors({
+      origin: "*",
+      allowedHeaders: ["Content-Type", "Authorization", "x-api-key", "mcp-session-id", "mcp-protocol-version", "last-event-id"],
+      exposedHeaders: ["mcp-session-id"],
+    })
+  );
+
+  if (isAuthEnabled()) {
+    // Fails the startup when the configured keys are invalid.
+    console.log(`API key authentication enabled (${getApiKeys().length} keys)`);
+    app.use("/mcp", authenticate);
+  } else {
+    console.warn("No MCP_API_KEYS configured: /mcp is open to anyone who can reach this server");
+  }
+
+  if (useStatefulSessions) {
+    registerStatefulRoutes(app);
+  } else {
+    registerStatelessRoutes(app);
+  }
 
   app.get("/health", (_req, res) => res.status(200).send("ok"));
 
   app.listen(port, host, () => {
-    console.log(`MCP Stateless Streamable HTTP listening on http://${host}:${port}`);
+    console.log(`MCP ${useStatefulSessions ? "Stateful" : "Stateless"} Streamable HTTP listening on http://${host}:${port}`);
     console.log(`Mode: ${process.env.ENVIRONMENT === "MAINNET" ? "Mainnet" : "Testnet"}`);
+    console.log(`Capabilities: ${readOnly ? "read-only" : "full"}`);
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,242 @@
+import { randomUUID } from "node:crypto";
+import WebSocket from "ws";
+import { formatUnits } from "viem";
+import { decodeEvent } from "./abiRegistry.js";
+import { vechainConfig } from "./config.js";
+import { ToolError } from "./errors.js";
+import type { NetworkConfig } from "./networks.js";
+
+export type SubscriptionKind = "block" | "event" | "transfer" | "beat2";
+
+export type SubscriptionFilters = Partial<Record<
+    "addr" | "t0" | "t1" | "t2" | "t3" | "t4" | "txOrigin" | "sender" | "recipient",
+    string
+>>;
+
+export interface SubscriptionMatch {
+    sequence: number;
+    receivedAt: number;
+    blockID: string | null;
+    blockNumber: number | null;
+    obsolete: boolean;
+    data: Record<string, unknown>;
+}
+
+/**
+ * Delivers a match to an MCP client; rejects once the client is gone, which
+ * removes the listener.
+ */
+export type SubscriptionListener = (subscription: Subscription, match: SubscriptionMatch) => Promise<void>;
+
+export class Subscription {
+    readonly id = randomUUID();
+    readonly createdAt = Date.now();
+    readonly buffer: SubscriptionMatch[] = [];
+    readonly listeners = new Set<SubscriptionListener>();
+
+    status: "connecting" | "open" | "reconnecting" | "closed" = "connecting";
+    lastBlock: { id: string, number: number } | null = null;
+    lastError: string | null = null;
+    matches = 0;
+    reconnects = 0;
+
+    private socket: WebSocket | undefined;
+    private reconnectTimer: NodeJS.Timeout | undefined;
+    private attempt = 0;
+    // Keys of the messages of the last block, to skip the ones replayed on reconnect.
+    private seenInLastBlock = new Set<string>();
+
+    constructor(
+        /** Session (or stdio client) that created the subscription; only it can see and close it. */
+        readonly owner: string,
+        readonly kind: SubscriptionKind,
+        readonly network: NetworkConfig,
+        readonly filters: SubscriptionFilters,
+        private readonly startPosition: string | undefined,
+    ) { }
+
+    get resourceUri(): string {
+        return `vechain://subscriptions/${this.id}`;
+    }
+
+    connect() {
+        const urls = this.network.thorestApiBaseUrls;
+        const base = (urls[this.attempt % urls.length] ?? "").replace(/^http/, "ws");
+        const params = new URLSearchParams(this.filters as Record<string, string>);
+        const position = this.lastBlock?.id ?? this.startPosition;
+
+        if (position) params.set("pos", position);
+
+        const socket = new WebSocket(`${base}/subscriptions/${this.kind}${params.size > 0 ? `?${params}` : ""}`);
+        this.socket = socket;
+
+        socket.on("open", () => {
+            this.status = "open";
+            this.attempt = 0;
+            this.lastError = null;
+        });
+
+        socket.on("message", (raw) => {
+            try {
+                this.handleMessage(JSON.parse(raw.toString()));
+            } catch (err) {
+                console.error(`Subscription ${this.id}: invalid message:`, (err as Error)?.message ?? err);
+            }
+        });
+
+        socket.on("error", (err) => {
+            this.lastError = err.message;
+        });
+
+        socket.on("close", () => {
+            if (this.status === "closed") return;
+            this.scheduleReconnect();
+        });
+    }
+
+    close() {
+        this.status = "closed";
+        clearTimeout(this.reconnectTimer);
+        this.socket?.close();
+        this.listeners.clear();
+    }
+
+    private scheduleReconnect() {
+        this.status = "reconnecting";
+        this.attempt++;
+        this.reconnects++;
+
+        const delay = Math.min(
+            vechainConfig.subscriptions.reconnectBaseDelay * 2 ** (this.attempt - 1),
+            vechainConfig.subscriptions.reconnectMaxDelay,
+        );
+
+        console.error(`Subscription ${this.id} (${this.kind} on ${this.network.name}) disconnected${this.lastError ? `: ${this.lastError}` : ""}, reconnecting in ${delay} ms`);
+        this.reconnectTimer = setTimeout(() => this.connect(), delay);
+        this.reconnectTimer.unref();
+    }
+
+    private handleMessage(message: Record<string, any>) {
+        const isBlock = this.kind === "block" || this.kind === "beat2";
+        const blockID: string | null = isBlock ? message.id : message.meta?.blockID ?? null;
+        const blockNumber: number | null = isBlock ? message.number : message.meta?.blockNumber ?? null;
+        const key = JSON.stringify(message);
+
+        if (blockID && blockID === this.lastBlock?.id) {
+            if (this.seenInLastBlock.has(key)) return;
+        } else {
+            this.seenInLastBlock.clear();
+        }
+
+        this.seenInLastBlock.add(key);
+
+        if (blockID && blockNumber !== null) {
+            this.lastBlock = { id: blockID, number: blockNumber };
+        }
+
+        const match: SubscriptionMatch = {
+            sequence: ++this.matches,
+            receivedAt: Date.now(),
+            blockID,
+            blockNumber,
+            obsolete: Boolean(message.obsolete),
+            data: decorate(this.kind, message),
+        };
+
+        this.buffer.push(match);
+
+        if (this.buffer.length > vechainConfig.subscriptions.bufferSize) {
+            this.buffer.shift();
+        }
+
+        for (const listener of this.listeners) {
+            listener(this, match).catch(() => this.listeners.delete(listener));
+        }
+    }
+
+    describe() {
+        return {
+            subscriptionId: this.id,
+            kind: this.kind,
+            network: this.network.name,
+            filters: this.filters,
+            status: this.status,
+            createdAt: new Date(this.createdAt).toISOString(),
+            lastBlock: this.lastBlock,
+            matches: this.matches,
+            buffered: this.buffer.length,
+            reconnects: this.reconnects,
+            lastError: this.lastError,
+            resourceUri: this.resourceUri,
+        };
+    }
+}
+
+function decorate(kind: SubscriptionKind, message: Record<string, any>): Record<string, unknown> {
+    if (kind === "event") {
+        return { ...message, decoded: decodeEvent(message as { address: string, topics: string[], data: string }) };
+    }
+
+    if (kind === "transfer") {
+        return { ...message, amountVET: formatUnits(BigInt(message.amount), 18) };
+    }
+
+    return message;
+}
+
+const subscriptions = new Map<string, Subscription>();
+
+export function createSubscription(
+    owner: string,
+    kind: SubscriptionKind,
+    network: NetworkConfig,
+    filters: SubscriptionFilters,
+    position?: string,
+): Subscription {
+    // The limit applies to each owner, so one session cannot take every slot.
+    if (listSubscriptions(owner).length >= vechainConfig.subscriptions.maxSubscriptions) {
+        throw new ToolError("INVALID_INPUT", `Too many subscriptions in this session (max ${vechainConfig.subscriptions.maxSubscriptions}): unsubscribe from some first`);
+    }
+
+    const subscription = new Subscription(owner, kind, network, filters, position);
+    subscriptions.set(subscription.id, subscription);
+    subscription.connect();
+
+    return subscription;
+}
+
+/**
+ * Subscription `id` of `owner`; the subscriptions of other owners are
+ * reported as unknown.
+ */
+export function getSubscription(id: string, owner: string | undefined): Subscription {
+    const subscription = subscriptions.get(id);
+
+    if (!subscription || subscription.owner !== owner) {
+        throw new ToolError("NOT_FOUND", `Unknown subscription "${id}"`);
+    }
+
+    return subscription;
+}
+
+export function listSubscriptions(owner: string | undefined): Subscription[] {
+    return [...subscriptions.values()].filter((subscription) => subscription.owner === owner);
+}
+
+export function removeSubscription(id: string, owner: string | undefined): Subscription {
+    const subscription = getSubscription(id, owner);
+    subscription.close();
+    subscriptions.delete(id);
+
+    return subscription;
+}
+
+/**
+ * Closes the subscriptions of `owner`, once its session or transport is closed.
+ */
+export function closeSubscriptions(owner: string) {
+    for (const subscription of listSubscriptions(owner)) {
+        subscription.close();
+        subscriptions.delete(subscription.id);
+    }
+}
@@ -0,0 +1,162 @@
+import { vechainConfig } from "./config.js";
+import { ToolError, type ToolErrorCode } from "./errors.js";
+import type { NetworkConfig } from "./networks.js";
+import { REVISION } from "./types.js";
+import { LruCache } from "./utils.js";
+
+function statusCode(status: number): ToolErrorCode {
+    if (status === 404) return "NOT_FOUND";
+    if (status >= 500 || status === 429) return "NODE_UNAVAILABLE";
+    return "INVALID_INPUT";
+}
+
+export class ThorestError extends ToolError {
+    constructor(
+        message: string,
+        public readonly status: number,
+        public readonly url: string,
+    ) {
+        super(statusCode(status), message);
+        this.name = "ThorestError";
+    }
+}
+
+export interface ThorestRequestOptions {
+    body?: unknown;
+    revision?: string | number;
+    /** Set to false for requests that must not be sent twice, e.g. broadcasts. Default: true */
+    retry?: boolean;
+}
+
+const cache = new LruCache<unknown>(vechainConfig.thorest.cacheSize);
+const inFlight = new Map<string, Promise<unknown>>();
+
+// Highest finalized block number seen on each network, from block responses.
+const finalizedHeights = new Map<string, number>();
+
+function recordFinalizedHeight(network: NetworkConfig, data: unknown) {
+    const block = data as { number?: unknown, isFinalized?: unknown } | null;
+
+    if (block?.isFinalized === true && typeof block.number === "number" && block.number > (finalizedHeights.get(network.name) ?? -1)) {
+        finalizedHeights.set(network.name, block.number);
+    }
+}
+
+/**
+ * How long a response read at `revision` can be reused: forever for block IDs
+ * and for block numbers known to be finalized, one block for `finalized` and
+ * for block numbers that may still be reorganized, not at all for moving
+ * heads.
+ */
+function cacheTtl(network: NetworkConfig, revision: string | number | undefined): number {
+    if (revision === undefined) return 0;
+    if (/^0x[0-9a-fA-F]{64}$/.test(String(revision))) return Infinity;
+
+    if (typeof revision === "number" || /^\d+$/.test(revision)) {
+        return Number(revision) <= (finalizedHeights.get(network.name) ?? -1)
+            ? Infinity
+            : vechainConfig.thorest.finalizedCacheTtl;
+    }
+
+    if (revision === REVISION.Finalized) return vechainConfig.thorest.finalizedCacheTtl;
+    return 0;
+}
+
+function isRetryable(err: unknown): boolean {
+    if (err instanceof ThorestError) return err.status >= 500 || err.status === 429;
+    // Timeouts (AbortError) and network failures (TypeError: fetch failed).
+    return (err as Error)?.name === "AbortError" || err instanceof TypeError;
+}
+
+async function fetchOnce<T>(url: string, body: unknown, timeoutMs: number): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+        const res = await fetch(url, {
+            ...(body !== undefined
+                ? { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }
+                : {}),
+            signal: controller.signal,
+        });
+
+        if (!res.ok) {
+            const bodyText = await res.text().catch(() => "");
+            throw new ThorestError(
+                `VeChain node responded ${res.status} ${res.statusText}${bodyText ? `: ${bodyText}` : ""}`,
+                res.status,
+                url,
+            );
+        }
+
+        return await res.json() as T;
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+async function fetchWithFailover<T>(network: NetworkConfig, path: string, body: unknown, retry: boolean): Promise<T> {
+    const urls = network.thorestApiBaseUrls;
+    // Read on each request, as .env may be loaded after this module.
+    const attempts = retry ? Number(process.env.THOREST_RETRIES ?? vechainConfig.thorest.retries) : 0;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= attempts; attempt++) {
+        if (attempt > 0) {
+            await new Promise((resolve) => setTimeout(resolve, vechainConfig.thorest.retryBaseDelay * 2 ** (attempt - 1)));
+        }
+
+        // Each attempt moves on to the next node of the network.
+        const base = urls[attempt % urls.length];
+
+        try {
+            return await fetchOnce<T>(`${base}${path}`, body, network.controllerAbortTimeout);
+        } catch (err) {
+            lastError = err;
+            if (!isRetryable(err)) break;
+            console.error(`Thorest request to ${base}${path} failed (attempt ${attempt + 1}/${attempts + 1}):`, (err as Error)?.message ?? err);
+        }
+    }
+
+    if ((lastError as Error)?.name === "AbortError") {
+        throw new ToolError("TIMEOUT", `VeChain node did not respond within ${network.controllerAbortTimeout} ms`);
+    }
+
+    if (lastError instanceof TypeError) {
+        throw new ToolError("NODE_UNAVAILABLE", `VeChain node is unreachable: ${lastError.message}`);
+    }
+
+    throw lastError;
+}
+
+/**
+ * Shared Thorest client: retries with backoff on 5xx and timeouts, fails over
+ * across the network's nodes, shares concurrent identical requests and caches
+ * responses read at immutable revisions. Requests with `retry: false` are
+ * sent once, since a timed out attempt may still have reached the node.
+ */
+export async function thorestRequest<T>(network: NetworkConfig, path: string, options: ThorestRequestOptions = {}): Promise<T> {
+    const key = `${network.name} ${options.body !== undefined ? "POST" : "GET"} ${path} ${options.body !== undefined ? JSON.stringify(options.body) : ""}`;
+
+    if (cacheTtl(network, options.revision) > 0) {
+        const cached = cache.get(key);
+        if (cached !== undefined) return cached as T;
+    }
+
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request = fetchWithFailover<T>(network, path, options.body, options.retry ?? true)
+        .then((data) => {
+            recordFinalizedHeight(network, data);
+            const ttl = cacheTtl(network, options.revision);
+
+            // Null means "not found (yet)", which may change.
+            if (ttl > 0 && data != null) cache.set(key, data, ttl);
+            return data;
+        })
+        .finally(() => inFlight.delete(key));
+
+    inFlight.set(key, request);
+    return request;
+}
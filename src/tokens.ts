@@ -0,0 +1,163 @@
+import fs from "node:fs";
+import z from "zod";
+import { decodeFunctionResult, encodeFunctionData } from "viem";
+import { builtinContracts, vip180Abi } from "./builtins.js";
+import { vechainConfig } from "./config.js";
+import { ToolError } from "./errors.js";
+import type { NetworkConfig } from "./networks.js";
+import { thorestRequest } from "./thorest.js";
+import type { ClauseSimulationOutput } from "./types.js";
+import { normalizeAddress } from "./utils.js";
+
+export interface TokenInfo {
+    symbol: string;
+    name: string;
+    address: string;
+    decimals: number;
+}
+
+const vtho: TokenInfo = { symbol: "VTHO", name: "VeThor", address: builtinContracts.energy.address, decimals: 18 };
+
+const defaultTokens: Record<string, TokenInfo[]> = {
+    mainnet: [
+        vtho,
+        { symbol: "B3TR", name: "B3TR", address: "0x5ef79995fe8a89e0812330e4378eb2660cede699", decimals: 18 },
+        { symbol: "VOT3", name: "VOT3", address: "0x76ca782b59c74d088c7d2cce2f211bc00836c602", decimals: 18 },
+    ],
+    testnet: [
+        vtho,
+        { symbol: "B3TR", name: "B3TR", address: "0xbf64cf86894ee0877c4e7d03936e35ee8d8b864f", decimals: 18 },
+        { symbol: "VOT3", name: "VOT3", address: "0xa704c45971995467696ee9310e2e9d6f6a2e4867", decimals: 18 },
+    ],
+};
+
+const tokenDefinitionSchema = z.object({
+    symbol: z.string().min(1),
+    name: z.string().min(1).optional(),
+    address: z.string().regex(vechainConfig.general.addressRegex),
+    decimals: z.number().int().min(0).max(255),
+});
+
+let registry: Map<string, TokenInfo[]> | undefined;
+
+// Metadata read on-chain for tokens that are not in the registry.
+const onChainTokens = new Map<string, Promise<TokenInfo>>();
+
+function loadConfiguredTokens(): Record<string, unknown> {
+    const file = process.env.VECHAIN_TOKENS_FILE;
+    const inline = process.env.VECHAIN_TOKENS;
+
+    try {
+        if (file) return JSON.parse(fs.readFileSync(file, "utf8"));
+        if (inline) return JSON.parse(inline);
+    } catch (err) {
+        console.error("Error loading token registry:", err);
+    }
+
+    return {};
+}
+
+/**
+ * Known VIP-180 tokens per network: VTHO, B3TR and VOT3 on mainnet and
+ * testnet, plus the tokens of VECHAIN_TOKENS(_FILE), which replace built-in
+ * entries with the same symbol.
+ */
+export function getTokenRegistry(): Map<string, TokenInfo[]> {
+    if (registry) return registry;
+
+    registry = new Map(Object.entries(defaultTokens).map(([network, tokens]) => [network, [...tokens]]));
+
+    for (const [network, definitions] of Object.entries(loadConfiguredTokens())) {
+        if (!Array.isArray(definitions)) {
+            console.error(`Ignoring tokens of network "${network}": expected an array`);
+            continue;
+        }
+
+        const tokens = registry.get(network.toLowerCase()) ?? [];
+
+        for (const definition of definitions) {
+            const parsed = tokenDefinitionSchema.safeParse(definition);
+
+            if (!parsed.success) {
+                console.error(`Ignoring token of network "${network}": ${parsed.error.message}`);
+                continue;
+            }
+
+            const { symbol, name, address, decimals } = parsed.data;
+            const index = tokens.findIndex((token) => token.symbol.toUpperCase() === symbol.toUpperCase());
+            const token = { symbol, name: name ?? symbol, address: normalizeAddress(address), decimals };
+
+            if (index === -1) tokens.push(token);
+            else tokens[index] = token;
+        }
+
+        registry.set(network.toLowerCase(), tokens);
+    }
+
+    return registry;
+}
+
+export function getTokens(networkName: string): TokenInfo[] {
+    return getTokenRegistry().get(networkName) ?? [];
+}
+
+async function readToken(network: NetworkConfig, address: string): Promise<TokenInfo> {
+    const functionNames = ["name", "symbol", "decimals"] as const;
+
+    const outputs = await thorestRequest<ClauseSimulationOutput[]>(network, "/accounts/*", {
+        body: {
+            clauses: functionNames.map((functionName) => ({
+                to: address,
+                value: "0x0",
+                data: encodeFunctionData({ abi: vip180Abi, functionName }),
+            })),
+        },
+    });
+
+    const [name, symbol, decimals] = functionNames.map((functionName, index) => {
+        const output = outputs[index];
+
+        if (!output || output.reverted || output.data === "0x") {
+            throw new ToolError("INVALID_INPUT", `${address} is not a VIP-180 token on ${network.name}: ${functionName}() failed`);
+        }
+
+        return decodeFunctionResult({ abi: vip180Abi, functionName, data: output.data as `0x${string}` });
+    });
+
+    return { symbol: String(symbol), name: String(name), address, decimals: Number(decimals) };
+}
+
+/**
+ * Resolves a token symbol from the registry, or a token address (registry
+ * first, then its name, symbol and decimals read on-chain).
+ */
+export async function resolveToken(network: NetworkConfig, token: string): Promise<TokenInfo> {
+    const tokens = getTokens(network.name);
+
+    if (!vechainConfig.general.addressRegex.test(token)) {
+        const known = tokens.find((candidate) => candidate.symbol.toUpperCase() === token.toUpperCase());
+
+        if (!known) {
+            throw new ToolError("INVALID_INPUT", `Unknown token "${token}" on ${network.name}. Known tokens: ${tokens.map(({ symbol }) => symbol).join(", ") || "none"}; pass the token address instead`);
+        }
+
+        return known;
+    }
+
+    const address = normalizeAddress(token);
+    const known = tokens.find((candidate) => candidate.address === address);
+
+    if (known) return known;
+
+    const key = `${network.name} ${address}`;
+    let pending = onChainTokens.get(key);
+
+    if (!pending) {
+        pending = readToken(network, address);
+        // Do not keep failures: the node may have been unreachable.
+        pending.catch(() => onChainTokens.delete(key));
+        onChainTokens.set(key, pending);
+    }
+
+    return pending;
+}
@@ -1,17 +1,68 @@
 import { getOnChainTools } from "@goat-sdk/adapter-model-context-protocol";
 import { viem } from "@goat-sdk/wallet-viem";
-import { isMainnet, walletClient } from "./wallet.js";
+import { vip180 } from "./vip180.js";
+import { getWalletClient } from "./wallet.js";
 import z from "zod";
-import { createVechainDocsMcpClient } from "./client.js";
+import { getDocumentationPage, searchDocumentation } from "./client.js";
 import { vechainConfig } from "./config.js";
-import { REVISION, type VeChainTool } from "./types.js";
-import { Address, Certificate, Hex, Mnemonic, Secp256k1, Transaction } from "@vechain/sdk-core";
+import { REVISION, type ClauseInput, type ClauseSimulationOutput, type ToolContext, type TransactionReceipt, type VeChainTool } from "./types.js";
+import { decodeEventLog, decodeRevertReason, encodeClauseInput, normalizeAddress, normalizeCertificatePayload, parseAbiInput, resolveAbiFunction, toJsonSafe, toolResult } from "./utils.js";
+import { parseArgument, ToolError, toolError } from "./errors.js";
+import { Address, Blake2b256, Certificate, Hex, HexUInt, Mnemonic, Secp256k1, Transaction, type CertificateData, type TransactionBody, type TransactionClause } from "@vechain/sdk-core";
+import { formatUnits, type Abi } from "viem";
+import { builtinContracts, chainParamKeys, encodeParamKey, ENERGY_GROWTH_RATE, readBuiltin } from "./builtins.js";
+import { thorestRequest } from "./thorest.js";
+import { decodeCalldata, decodeEvent, decorateTransaction, getAbiRegistryFile, registerAbi } from "./abiRegistry.js";
+import { defaultNetworkName, getNetworks, networkSchema, resolveNetwork, type NetworkConfig } from "./networks.js";
+import { checkGasPayerPolicy, combineDelegatedSignatures, getGasPayerSecretKey, markAsDelegated } from "./delegation.js";
+import { enforceSigningPolicy, type SigningApproval } from "./policy.js";
+import { createSubscription, getSubscription, listSubscriptions, removeSubscription, type SubscriptionFilters, type SubscriptionKind } from "./subscriptions.js";
+import { estimateFees, estimateGas, getFeeHistory } from "./fees.js";
+import { getAddressHistory, type HistoryDirection } from "./history.js";
+import { accountSchema, getAccount, getAccounts, getDefaultAccountName, isReadOnlyMode } from "./accounts.js";
+import {
+    accountOutputSchema,
+    accountsOutputSchema,
+    addressHistoryOutputSchema,
+    authorityNodesOutputSchema,
+    blockHistoryOutputSchema,
+    blockOutputSchema,
+    builtTransactionOutputSchema,
+    certificateOutputSchema,
+    certificateVerificationOutputSchema,
+    chainParamsOutputSchema,
+    contractCallOutputSchema,
+    decodedCallOutputSchema,
+    decodedEventOutputSchema,
+    delegatedTransactionOutputSchema,
+    docsPageOutputSchema,
+    docsSearchOutputSchema,
+    energyOutputSchema,
+    eventLogsOutputSchema,
+    feeEstimateOutputSchema,
+    feeHistoryOutputSchema,
+    gasPayerSignatureOutputSchema,
+    networksOutputSchema,
+    originSignatureOutputSchema,
+    priorityFeeOutputSchema,
+    receiptOutputSchema,
+    registeredAbiOutputSchema,
+    sentTransactionOutputSchema,
+    signedTransactionOutputSchema,
+    subscriptionMatchesOutputSchema,
+    subscriptionOutputSchema,
+    subscriptionsOutputSchema,
+    transactionOutputSchema,
+    transferLogsOutputSchema,
+    waitForReceiptOutputSchema,
+    walletOutputSchema,
+} from "./outputSchemas.js";
 
 export const toolsPromise = async (): Promise<ReturnType<typeof getOnChainTools>> => {
     try {
         const { listOfTools, toolHandler } = await getOnChainTools({
-            wallet: viem(walletClient),
-            plugins: [],
+            wallet: viem(await getWalletClient()),
+            plugins: [vip180(resolveNetwork())],
         });
 
         return {
@@ -24,53 +75,189 @@ export const toolsPromise = async (): Promise<ReturnType<typeof getOnChainTools>
     }
 }
 
+const clauseInputSchema = z.object({
+    to: z
+        .string()
+        .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+        .nullable()
+        .optional()
+        .describe("Recipient or contract address. Null or omitted deploys a contract"),
+    value: z
+        .string()
+        .optional()
+        .describe("Amount of VET to transfer, in wei (decimal or 0x hex). Default: 0"),
+    data: z
+        .string()
+        .optional()
+        .describe("Raw clause data (0x hex). Ignored when abi is provided"),
+    abi: z
+        .union([z.string(), z.array(z.union([z.string(), z.record(z.any())])), z.record(z.any())])
+        .optional()
+        .describe("Function ABI fragment or human-readable signature used to encode data from args"),
+    functionName: z
+        .string()
+        .optional()
+        .describe("Function to call when the ABI contains more than one function"),
+    args: z
+        .array(z.any())
+        .optional()
+        .describe("Function arguments in order. Use strings for large integers"),
+});
+
+const revisionSchema = z
+    .union([
+        z.enum([REVISION.Best, REVISION.Justified, REVISION.Finalized]),
+        z.number().int().nonnegative(),
+        z
+            .string()
+            .min(1)
+            .describe("Block ID (hex) or block number as string"),
+    ])
+    .optional()
+    .describe("Revision: best | justified | finalized | block number | block ID (hex). If omitted, best is used.")
+    .default("best");
+
+/**
+ * Pins a revision to a block, so that the reads of a tool are consistent and
+ * cached.
+ */
+async function resolveBlockRef(network: NetworkConfig, revision: string | number) {
+    const block = await thorestRequest<{ id: string, number: number } | null>(network, `/blocks/${encodeURIComponent(revision)}`, { revision });
+
+    if (!block) {
+        throw new ToolError("NOT_FOUND", `Block ${revision} not found`);
+    }
+
+    return { id: block.id, number: block.number };
+}
+
+/**
+ * Decodes a raw transaction, signed or unsigned.
+ */
+function decodeRawTransaction(rawTransaction: string): Transaction {
+    return parseArgument("raw transaction", () => {
+        const bytes = Hex.of(rawTransaction).bytes;
+
+        try {
+            return Transaction.decode(bytes, false);
+        } catch {
+            return Transaction.decode(bytes, true);
+        }
+    });
+}
+
+function summarizeReceipt(receipt: TransactionReceipt, abi?: Abi) {
+    const paid = BigInt(receipt.paid);
+    const reward = BigInt(receipt.reward);
+
+    return {
+        txID: receipt.meta.txID,
+        status: receipt.reverted ? "reverted" : "success",
+        reverted: receipt.reverted,
+        block: {
+            id: receipt.meta.blockID,
+            number: receipt.meta.blockNumber,
+            timestamp: receipt.meta.blockTimestamp,
+        },
+        origin: receipt.meta.txOrigin,
+        gasPayer: receipt.gasPayer,
+        delegated: receipt.gasPayer.toLowerCase() !== receipt.meta.txOrigin.toLowerCase(),
+        gasUsed: receipt.gasUsed,
+        fees: {
+            paidVTHO: formatUnits(paid, 18),
+            rewardVTHO: formatUnits(reward, 18),
+            burnedVTHO: formatUnits(paid - reward, 18),
+            paid: paid.toString(),
+            reward: reward.toString(),
+        },
+        outputs: receipt.outputs.map((output, clauseIndex) => ({
+            clauseIndex,
+            contractAddress: output.contractAddress,
+            events: output.events.map((event) => ({ ...event, decoded: decodeEvent(event, abi) })),
+            transfers: output.transfers.map((transfer) => ({
+                ...transfer,
+                amountVET: formatUnits(BigInt(transfer.amount), 18),
+            })),
+        })),
+    };
+}
+
 export const vechainTools: VeChainTool[] = [
         // Vechain DOCS
 
         {
             name: "search_documentation",
             title: "Search VeChain Documentation",
-            description: "Search across the documentation to find relevant information, code examples, API references, and guides. Use this tool when you need to answer questions about VeChain Docs, find specific documentation, understand how features work, or locate implementation details. The search returns contextual content with titles and direct links to the documentation pages.",
+            description: "Search across the documentation to find relevant information, code examples, API references, and guides. Use this tool when you need to answer questions about VeChain Docs, find specific documentation, understand how features work, or locate implementation details. The search returns contextual content with titles and direct links to the documentation pages. Results are cached; when the docs server is unreachable, the offline snapshot is searched if one is configured.",
             inputSchema: {
                 query: z.string().describe("The search query string"),
             },
+            outputSchema: docsSearchOutputSchema,
+            annotations: { readOnlyHint: true },
             callback: async ({ query }: { query: string }) => {
                 try {
-                    const vechainDocsMcpClient = await createVechainDocsMcpClient();
+                    const result = await searchDocumentation(query);
 
-                    const response = await vechainDocsMcpClient.client.callTool({ name: "searchDocumentation", arguments: { query } })
+                    if (result.source === "snapshot") {
+                        return toolResult({ source: "snapshot", note: `Offline snapshot results: ${result.reason}`, results: result.results });
+                    }
 
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: JSON.stringify(response, null, 2),
-                            },
-                        ],
-                    };
+                    return toolResult({ source: result.source, content: result.response.content }, result.response);
 
                 } catch (err) {
-                    const isAbort = (err as Error)?.name === "AbortError";
-
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: JSON.stringify(
-                                    {
-                                        error: isAbort ? "Request timed out" : "Failed to fetch account",
-                                        reason: String((err as Error)?.message ?? err),
-                                    },
-                                    null,
-                                    2
-                                ),
-                            },
-                        ],
-                    };
+                    return toolError(err, "Failed to search documentation", { query }, "NODE_UNAVAILABLE");
                 }
             }
         },
 
+        {
+            name: "get_documentation_page",
+            title: "Get a VeChain Documentation page",
+            description: "Get the full content of a VeChain Docs page by its URL, e.g. a link returned by search_documentation. Falls back to the offline snapshot when the docs server is unreachable.",
+            inputSchema: {
+                url: z.string().url().describe("Page URL, e.g. https://docs.vechain.org/..."),
+            },
+            outputSchema: docsPageOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({ url }: { url: string }) => {
+                try {
+                    const result = await getDocumentationPage(url);
+
+                    if (result.source === "snapshot") {
+                        return toolResult({ source: "snapshot", note: `Offline snapshot page: ${result.reason}`, ...result.page });
+                    }
+
+                    return toolResult({ source: "remote", content: result.response.content }, result.response);
+                } catch (err) {
+                    return toolError(err, "Failed to fetch documentation page", { url }, "NODE_UNAVAILABLE");
+                }
+            }
+        },
+
+        // Networks
+
+        {
+            name: "list_networks",
+            title: "List available networks",
+            description: "List the networks every Thorest tool can target through its optional network argument: mainnet, testnet and custom networks (e.g. a local solo node) defined in VECHAIN_CUSTOM_NETWORKS.",
+            inputSchema: {},
+            outputSchema: networksOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async () => {
+                const result = {
+                    default: defaultNetworkName,
+                    networks: [...getNetworks().values()].map(({ name, thorestApiBaseUrls, rpc, chainTag }) => ({
+                        name,
+                        thorestApiBaseUrls,
+                        rpc: rpc ?? null,
+                        chainTag: chainTag !== undefined ? `0x${chainTag.toString(16).padStart(2, "0")}` : null,
+                    })),
+                };
+
+                return toolResult(result);
+            }
+        },
+
         // Thorest API
 
         // Accounts
@@ -99,13 +286,16 @@ export const vechainTools: VeChainTool[] = [
                             "Revision: best | justified | finalized | block number | block ID (hex). If omitted, best is used."
                         )
                         .default("best"),
+                network: networkSchema,
             },
-            callback: async ({ address, revision }: { address: string, revision: z.ZodDefault<z.ZodOptional<z.ZodUnion<[z.ZodEnum<[REVISION.Best, REVISION.Justified, REVISION.Finalized]>, z.ZodNumber, z.ZodString]>>> }) => {
+            outputSchema: accountOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({ address, revision, network }: { address: string, revision: string | number, network?: string }) => {
                 const normalizedAddress = address.startsWith("0x")
                     ? address.toLowerCase()
                     : `0x${address.toLowerCase()}`;
 
-                const base = isMainnet ? vechainConfig.mainnet.thorestApiBaseUrl : vechainConfig.testnet.thorestApiBaseUrl;
+                const selectedNetwork = resolveNetwork(network);
                 const path = `/accounts/${encodeURIComponent(normalizedAddress)}`;
                 const qs = new URLSearchParams();
 
@@ -113,73 +303,516 @@ export const vechainTools: VeChainTool[] = [
                     qs.set("revision", String(revision));
                 }
 
-                const url = `${base}${path}${qs.toString() ? `?${qs.toString()}` : ""}`;
-
-                const controller = new AbortController();
-                const timeout = setTimeout(() => controller.abort(), isMainnet ? vechainConfig.mainnet.controllerAbortTimeout : vechainConfig.testnet.controllerAbortTimeout);
+                const resource = `${path}${qs.toString() ? `?${qs.toString()}` : ""}`;
 
                 try {
-                    const res = await fetch(url, { signal: controller.signal });
+                    const data = await thorestRequest<Record<string, unknown> | null>(selectedNetwork, resource, { revision });
 
-                    if (!res.ok) {
-                        const bodyText = await res.text().catch(() => "");
-                        throw new Error(
-                            `VeChain node responded ${res.status} ${res.statusText}${bodyText ? `: ${bodyText}` : ""
-                            }`
-                        );
+                    if (data == null) {
+                        throw new ToolError("NOT_FOUND", "Account not found (or revision not available)");
                     }
 
-                    const data = await res.json();
+                    return toolResult(data);
+                } catch (err) {
+                    return toolError(err, "Failed to fetch account", {
+                        resource,
+                        network: selectedNetwork.name,
+                        address: normalizedAddress,
+                        revision: revision ?? "best",
+                    });
+                }
+            }
+        },
 
-                    if (data == null) {
-                        return {
-                            content: [
-                                {
-                                    type: "text",
-                                    text: JSON.stringify(
-                                        {
-                                            message: "Account not found (or revision not available)",
-                                            address: normalizedAddress,
-                                            revision: revision ?? "best",
-                                        },
-                                        null,
-                                        2
-                                    ),
-                                },
-                            ],
-                        };
+        {
+            name: "call_contract",
+            title: "Call a contract (read-only)",
+            description: "Simulate a contract function call without sending a transaction (POST /accounts/*). Encodes the call from an ABI fragment or human-readable signature, runs it at the given revision and returns decoded outputs, gas used, revert reason, VM error and emitted events.",
+            inputSchema: {
+                address: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .describe("Contract address (20-byte hex, with or without 0x prefix)"),
+                abi: z
+                    .union([z.string(), z.array(z.union([z.string(), z.record(z.any())])), z.record(z.any())])
+                    .describe("Function ABI: JSON fragment, full JSON ABI (with functionName), or human-readable signature such as \"function balanceOf(address owner) view returns (uint256)\""),
+                functionName: z
+                    .string()
+                    .optional()
+                    .describe("Function to call when the ABI contains more than one function"),
+                args: z
+                    .array(z.any())
+                    .optional()
+                    .describe("Function arguments in order. Use strings for large integers. Default: []"),
+                value: z
+                    .string()
+                    .optional()
+                    .describe("Amount of VET to send with the call, in wei (decimal or 0x hex). Default: 0"),
+                caller: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .optional()
+                    .describe("Address used as msg.sender / tx origin for the simulation"),
+                revision: revisionSchema,
+                network: networkSchema,
+            },
+            outputSchema: contractCallOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({
+                address,
+                abi,
+                functionName,
+                args = [],
+                value = "0x0",
+                caller,
+                revision,
+                network,
+            }: {
+                address: string,
+                abi: unknown,
+                functionName?: string,
+                args?: unknown[],
+                value?: string,
+                caller?: string,
+                revision: string | number,
+                network?: string,
+            }) => {
+                const normalizedAddress = normalizeAddress(address);
+
+                const selectedNetwork = resolveNetwork(network);
+                const qs = new URLSearchParams();
+
+                if (revision !== undefined && revision !== null) {
+                    qs.set("revision", String(revision));
+                }
+
+                const resource = `/accounts/*${qs.toString() ? `?${qs.toString()}` : ""}`;
+
+                try {
+                    const parsedAbi = parseAbiInput(abi);
+                    const abiFunction = resolveAbiFunction(parsedAbi, functionName);
+                    const data = parseArgument("args", () => abiFunction.encodeData(args).toString());
+                    const amount = parseArgument("value", () => BigInt(value));
+
+                    const [output] = await thorestRequest<ClauseSimulationOutput[]>(selectedNetwork, resource, {
+                        body: {
+                            clauses: [{ to: normalizedAddress, value: `0x${amount.toString(16)}`, data }],
+                            ...(caller ? { caller: normalizeAddress(caller) } : {}),
+                        },
+                        revision,
+                    });
+
+                    if (!output) {
+                        throw new Error("VeChain node returned no clause output");
                     }
 
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: JSON.stringify(data, null, 2),
-                            },
-                        ],
+                    const result = {
+                        address: normalizedAddress,
+                        function: abiFunction.format("string"),
+                        data,
+                        revision: revision ?? "best",
+                        reverted: output.reverted,
+                        outputs: !output.reverted && output.data !== "0x"
+                            ? toJsonSafe(abiFunction.decodeResult(Hex.of(output.data)))
+                            : null,
+                        revertReason: output.reverted ? decodeRevertReason(output.data, parsedAbi) : null,
+                        vmError: output.vmError || null,
+                        gasUsed: output.gasUsed,
+                        events: output.events.map((event) => ({ ...event, decoded: decodeEventLog(parsedAbi, event) })),
+                        transfers: output.transfers,
+                        rawOutput: output.data,
                     };
+
+                    return toolResult(result);
                 } catch (err) {
-                    const isAbort = (err as Error)?.name === "AbortError";
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: JSON.stringify(
-                                    {
-                                        error: isAbort ? "Request timed out" : "Failed to fetch account",
-                                        reason: String((err as Error)?.message ?? err),
-                                        url,
-                                        address: normalizedAddress,
-                                        revision: revision ?? "best",
-                                    },
-                                    null,
-                                    2
-                                ),
-                            },
-                        ],
+                    return toolError(err, "Failed to call contract", {
+                        resource,
+                        network: selectedNetwork.name,
+                        address: normalizedAddress,
+                        revision: revision ?? "best",
+                    });
+                }
+            }
+        },
+
+        // Built-in contracts
+
+        {
+            name: "get_energy",
+            title: "Get VTHO balance and generation",
+            description: "Read the VTHO (energy) balance of an address from the Energy built-in contract, with the VTHO its VET balance generates per day, plus the VTHO total supply and total burned. Optionally specify a revision.",
+            inputSchema: {
+                address: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .describe("Account/contract address (20-byte hex, with or without 0x prefix)"),
+                revision: revisionSchema,
+                network: networkSchema,
+            },
+            outputSchema: energyOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({ address, revision, network }: { address: string, revision: string | number, network?: string }) => {
+                const normalizedAddress = normalizeAddress(address);
+                const selectedNetwork = resolveNetwork(network);
+
+                try {
+                    const block = await resolveBlockRef(selectedNetwork, revision);
+                    const [[balance, totalSupply, totalBurned], account] = await Promise.all([
+                        readBuiltin(selectedNetwork, builtinContracts.energy, [
+                            { functionName: "balanceOf", args: [normalizedAddress] },
+                            { functionName: "totalSupply" },
+                            { functionName: "totalBurned" },
+                        ], block.id),
+                        thorestRequest<{ balance: string }>(selectedNetwork, `/accounts/${normalizedAddress}?revision=${block.id}`, { revision: block.id }),
+                    ]);
+
+                    const vet = BigInt(account.balance);
+                    const generatedPerDay = vet * ENERGY_GROWTH_RATE * 86_400n / 10n ** 18n;
+
+                    const result = {
+                        address: normalizedAddress,
+                        block,
+                        vtho: formatUnits(balance as bigint, 18),
+                        vthoWei: String(balance),
+                        vet: formatUnits(vet, 18),
+                        generation: {
+                            vthoPerDay: formatUnits(generatedPerDay, 18),
+                            vthoPerVetPerDay: formatUnits(ENERGY_GROWTH_RATE * 86_400n, 18),
+                        },
+                        vthoTotalSupply: formatUnits(totalSupply as bigint, 18),
+                        vthoTotalBurned: formatUnits(totalBurned as bigint, 18),
+                    };
+
+                    return toolResult(result);
+                } catch (err) {
+                    return toolError(err, "Failed to read energy", {
+                        network: selectedNetwork.name,
+                        address: normalizedAddress,
+                        revision: revision ?? "best",
+                    });
+                }
+            }
+        },
+
+        {
+            name: "get_chain_params",
+            title: "Get governance parameters",
+            description: "Read the governance parameters of the Params built-in contract: base gas price, reward ratio, proposer endorsement, max block proposers and the executor, decoded with units. Optionally read extra parameters by key name and specify a revision.",
+            inputSchema: {
+                keys: z
+                    .array(z.string().min(1).max(32))
+                    .optional()
+                    .describe("Extra parameter names to read, e.g. [\"max-block-proposers\"]. Returned as raw uint256 decimal strings"),
+                revision: revisionSchema,
+                network: networkSchema,
+            },
+            outputSchema: chainParamsOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({ keys = [], revision, network }: { keys?: string[], revision: string | number, network?: string }) => {
+                const selectedNetwork = resolveNetwork(network);
+
+                try {
+                    const block = await resolveBlockRef(selectedNetwork, revision);
+                    const names = [...Object.values(chainParamKeys), ...keys];
+                    const [executor, ...values] = await readBuiltin(selectedNetwork, builtinContracts.params, [
+                        { functionName: "executor" },
+                        ...names.map((name) => ({ functionName: "get", args: [encodeParamKey(name)] })),
+                    ], block.id);
+
+                    const param = (name: string) => values[names.indexOf(name)] as bigint;
+                    const baseGasPrice = param(chainParamKeys.baseGasPrice);
+                    const rewardRatio = param(chainParamKeys.rewardRatio);
+                    const proposerEndorsement = param(chainParamKeys.proposerEndorsement);
+
+                    const result = {
+                        block,
+                        executor: String(executor).toLowerCase(),
+                        baseGasPrice: {
+                            wei: baseGasPrice.toString(),
+                            vtho: formatUnits(baseGasPrice, 18),
+                        },
+                        rewardRatio: {
+                            raw: rewardRatio.toString(),
+                            percent: Number(formatUnits(rewardRatio * 100n, 18)),
+                        },
+                        proposerEndorsement: {
+                            wei: proposerEndorsement.toString(),
+                            vet: formatUnits(proposerEndorsement, 18),
+                        },
+                        maxBlockProposers: Number(param(chainParamKeys.maxBlockProposers)),
+                        ...(keys.length > 0
+                            ? { extra: Object.fromEntries(keys.map((key) => [key, param(key).toString()])) }
+                            : {}),
+                    };
+
+                    return toolResult(result);
+                } catch (err) {
+                    return toolError(err, "Failed to read governance parameters", {
+                        network: selectedNetwork.name,
+                        revision: revision ?? "best",
+                    });
+                }
+            }
+        },
+
+        {
+            name: "get_authority_nodes",
+            title: "Get authority masternodes",
+            description: "Read the authority masternodes from the Authority built-in contract: node master, endorsor, identity and whether the node is active. With nodeMaster, return that node only. Endorsement status (endorsor VET balance against the proposer endorsement parameter) is included for a single node, or for all nodes with includeEndorsement.",
+            inputSchema: {
+                nodeMaster: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .optional()
+                    .describe("Node master address of a single node to check"),
+                includeEndorsement: z
+                    .boolean()
+                    .optional()
+                    .describe("Check the endorsement of every listed node (one account read per node). Default: false"),
+                revision: revisionSchema,
+                network: networkSchema,
+            },
+            outputSchema: authorityNodesOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({
+                nodeMaster,
+                includeEndorsement = false,
+                revision,
+                network,
+            }: {
+                nodeMaster?: string,
+                includeEndorsement?: boolean,
+                revision: string | number,
+                network?: string,
+            }) => {
+                const selectedNetwork = resolveNetwork(network);
+
+                try {
+                    const block = await resolveBlockRef(selectedNetwork, revision);
+                    const readNode = async (master: string) => {
+                        const [[listed, endorsor, identity, active]] = await readBuiltin(selectedNetwork, builtinContracts.authority, [
+                            { functionName: "get", args: [master] },
+                        ], block.id) as [[boolean, string, string, boolean]];
+
+                        return { nodeMaster: master.toLowerCase(), listed, endorsor: endorsor.toLowerCase(), identity, active };
                     };
-                } finally {
-                    clearTimeout(timeout);
+
+                    let nodes: Array<Awaited<ReturnType<typeof readNode>>>;
+
+                    if (nodeMaster) {
+                        nodes = [await readNode(normalizeAddress(nodeMaster))];
+                    } else {
+                        // The node list is a linked list: first(), then next(node) until the zero address.
+                        nodes = [];
+                        let [master] = await readBuiltin(selectedNetwork, builtinContracts.authority, [{ functionName: "first" }], block.id) as [string];
+
+                        while (BigInt(master) !== 0n) {
+                            nodes.push(await readNode(master));
+                            [master] = await readBuiltin(selectedNetwork, builtinContracts.authority, [{ functionName: "next", args: [master] }], block.id) as [string];
+                        }
+                    }
+
+                    let endorsements: Array<{ endorsorVET: string, endorsed: boolean } | null> = nodes.map(() => null);
+
+                    if (nodeMaster || includeEndorsement) {
+                        const [required] = await readBuiltin(selectedNetwork, builtinContracts.params, [
+                            { functionName: "get", args: [encodeParamKey(chainParamKeys.proposerEndorsement)] },
+                        ], block.id) as [bigint];
+
+                        endorsements = await Promise.all(nodes.map(async (node) => {
+                            if (!node.listed) return null;
+
+                            const { balance } = await thorestRequest<{ balance: string }>(selectedNetwork, `/accounts/${node.endorsor}?revision=${block.id}`, { revision: block.id });
+                            return { endorsorVET: formatUnits(BigInt(balance), 18), endorsed: BigInt(balance) >= required };
+                        }));
+                    }
+
+                    const result = {
+                        block,
+                        count: nodes.length,
+                        activeCount: nodes.filter((node) => node.active).length,
+                        nodes: nodes.map((node, index) => ({ ...node, ...(endorsements[index] ?? {}) })),
+                    };
+
+                    return toolResult(result);
+                } catch (err) {
+                    return toolError(err, "Failed to read authority nodes", {
+                        network: selectedNetwork.name,
+                        ...(nodeMaster ? { nodeMaster } : {}),
+                        revision: revision ?? "best",
+                    });
+                }
+            }
+        },
+
+        {
+            name: "get_block_history",
+            title: "Get historical block data",
+            description: "Read historical block data from the Extension built-in contract: block ID, signer, total score and timestamp for the given block numbers, as seen from the given revision (best by default).",
+            inputSchema: {
+                numbers: z
+                    .array(z.number().int().nonnegative())
+                    .min(1)
+                    .max(100)
+                    .describe("Block numbers to read (at most 100)"),
+                revision: revisionSchema,
+                network: networkSchema,
+            },
+            outputSchema: blockHistoryOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({ numbers, revision, network }: { numbers: number[], revision: string | number, network?: string }) => {
+                const selectedNetwork = resolveNetwork(network);
+
+                try {
+                    const block = await resolveBlockRef(selectedNetwork, revision);
+                    const calls = numbers.flatMap((number) => ["blockID", "blockSigner", "blockTotalScore", "blockTime"]
+                        .map((functionName) => ({ functionName, args: [BigInt(number)] })));
+                    const results = await readBuiltin(selectedNetwork, builtinContracts.extension, calls, block.id);
+
+                    const blocks = numbers.map((number, index) => {
+                        const [id, signer, totalScore, time] = results.slice(index * 4, index * 4 + 4) as [string, string, bigint, bigint];
+
+                        // The Extension contract returns zero values for blocks after the revision.
+                        if (BigInt(id) === 0n) {
+                            return { number, found: false };
+                        }
+
+                        return {
+                            number,
+                            found: true,
+                            id,
+                            signer: signer.toLowerCase(),
+                            totalScore: Number(totalScore),
+                            timestamp: Number(time),
+                            time: new Date(Number(time) * 1000).toISOString(),
+                        };
+                    });
+
+                    return toolResult({ block, blocks });
+                } catch (err) {
+                    return toolError(err, "Failed to read block history", {
+                        network: selectedNetwork.name,
+                        numbers,
+                        revision: revision ?? "best",
+                    });
+                }
+            }
+        },
+
+        // ABI registry
+
+        {
+            name: "register_abi",
+            title: "Register a contract ABI",
+            description: "Register the ABI of a contract address, so that its calls and events are decoded in transactions, blocks, receipts and by decode_calldata / decode_event. Replaces any ABI registered for the address and is saved to the local ABI registry file.",
+            inputSchema: {
+                address: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .describe("Contract address (20-byte hex, with or without 0x prefix)"),
+                abi: z
+                    .union([z.string(), z.array(z.union([z.string(), z.record(z.any())])), z.record(z.any())])
+                    .describe("Contract ABI: JSON ABI or human-readable signatures such as [\"function stake(uint256 amount)\", \"event Staked(address indexed user, uint256 amount)\"]"),
+                name: z
+                    .string()
+                    .optional()
+                    .describe("Human-readable contract name shown in decoded output"),
+            },
+            outputSchema: registeredAbiOutputSchema,
+            annotations: { readOnlyHint: false, destructiveHint: true },
+            callback: async ({ address, abi, name }: { address: string, abi: unknown, name?: string }) => {
+                try {
+                    const entry = registerAbi(address, abi, name);
+
+                    return toolResult({
+                        address: entry.address,
+                        name: entry.name,
+                        functions: entry.abi.filter((item) => item.type === "function").length,
+                        events: entry.abi.filter((item) => item.type === "event").length,
+                        errors: entry.abi.filter((item) => item.type === "error").length,
+                        file: getAbiRegistryFile(),
+                    });
+                } catch (err) {
+                    return toolError(err, "Failed to register ABI", { address });
+                }
+            }
+        },
+
+        {
+            name: "decode_calldata",
+            title: "Decode clause data",
+            description: "Decode clause data (a contract call) into the function name and named arguments, using the given ABI, the ABI registered for the contract, the built-in contracts and a table of common signatures.",
+            inputSchema: {
+                data: z
+                    .string()
+                    .regex(/^0x[0-9a-fA-F]*$/, "Invalid data: expected 0x hex")
+                    .describe("Clause data (0x hex), starting with the 4-byte function selector"),
+                to: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .optional()
+                    .describe("Called contract address, to use its registered or built-in ABI"),
+                abi: z
+                    .union([z.string(), z.array(z.union([z.string(), z.record(z.any())])), z.record(z.any())])
+                    .optional()
+                    .describe("Optional ABI to try first: JSON ABI or human-readable signatures"),
+            },
+            outputSchema: decodedCallOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({ data, to, abi }: { data: string, to?: string, abi?: unknown }) => {
+                try {
+                    const decoded = decodeCalldata(data, to, abi !== undefined ? parseAbiInput(abi) : undefined);
+
+                    return toolResult(decoded ?? {
+                        message: data.length < 10 ? "No function call: data is empty" : "Unknown function: register the contract ABI with register_abi",
+                        selector: data.length >= 10 ? data.slice(0, 10).toLowerCase() : null,
+                    });
+                } catch (err) {
+                    return toolError(err, "Failed to decode calldata", {});
+                }
+            }
+        },
+
+        {
+            name: "decode_event",
+            title: "Decode an event log",
+            description: "Decode an event log (topics and data) into the event name and arguments, using the given ABI, the ABI registered for the emitting contract, the built-in contracts and a table of common events.",
+            inputSchema: {
+                topics: z
+                    .array(z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Invalid topic: expected 0x + 64 hex chars"))
+                    .min(1)
+                    .max(5)
+                    .describe("Event topics; the first one is the event signature hash"),
+                data: z
+                    .string()
+                    .regex(/^0x[0-9a-fA-F]*$/, "Invalid data: expected 0x hex")
+                    .optional()
+                    .describe("Event data (0x hex). Default: 0x"),
+                address: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .optional()
+                    .describe("Address of the contract that emitted the event, to use its registered or built-in ABI"),
+                abi: z
+                    .union([z.string(), z.array(z.union([z.string(), z.record(z.any())])), z.record(z.any())])
+                    .optional()
+                    .describe("Optional ABI to try first: JSON ABI or human-readable signatures"),
+            },
+            outputSchema: decodedEventOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({ topics, data = "0x", address, abi }: { topics: string[], data?: string, address?: string, abi?: unknown }) => {
+                try {
+                    const decoded = decodeEvent(
+                        { ...(address ? { address: normalizeAddress(address) } : {}), topics, data },
+                        abi !== undefined ? parseAbiInput(abi) : undefined,
+                    );
+
+                    return toolResult(decoded ?? {
+                        message: "Unknown event: register the contract ABI with register_abi",
+                        topic0: topics[0]?.toLowerCase(),
+                    });
+                } catch (err) {
+                    return toolError(err, "Failed to decode event", {});
                 }
             }
         },
@@ -189,7 +822,7 @@ export const vechainTools: VeChainTool[] = [
         {
             name: "get_transaction",
             title: "Retrieve a transaction by ID",
-            description: "Get a VeChain transaction by its ID. Optionally include pending txs (meta may be null), return raw hex, or pin to a specific head block.",
+            description: "Get a VeChain transaction by its ID. Optionally include pending txs (meta may be null), return raw hex, or pin to a specific head block. Each clause gets a decoded view of its call (function and named arguments) from the ABI registry: registered ABIs, built-in contracts and common signatures.",
             inputSchema: {
                 id: z
                     .string()
@@ -207,9 +840,12 @@ export const vechainTools: VeChainTool[] = [
                     .string()
                     .optional()
                     .describe("Head block ID to use; defaults to best if omitted"),
+                network: networkSchema,
             },
-            callback: async ({ id, pending = false, raw = false, head }: { id: string, pending?: boolean, raw?: boolean, head?: string }) => {
-                const base = isMainnet ? vechainConfig.mainnet.thorestApiBaseUrl : vechainConfig.testnet.thorestApiBaseUrl;
+            outputSchema: transactionOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({ id, pending = false, raw = false, head, network }: { id: string, pending?: boolean, raw?: boolean, head?: string, network?: string }) => {
+                const selectedNetwork = resolveNetwork(network);
                 const path = `/transactions/${encodeURIComponent(id)}`;
                 const qs = new URLSearchParams();
 
@@ -217,77 +853,113 @@ export const vechainTools: VeChainTool[] = [
                 if (typeof raw === "boolean") qs.set("raw", String(raw));
                 if (head) qs.set("head", head);
 
-                const url = `${base}${path}${qs.toString() ? `?${qs.toString()}` : ""}`;
+                const resource = `${path}${qs.toString() ? `?${qs.toString()}` : ""}`;
+
+                try {
+                    const data = await thorestRequest<Record<string, unknown> | null>(selectedNetwork, resource);
+
+                    if (data == null) {
+                        throw new ToolError("NOT_FOUND", "Transaction not found");
+                    }
+
+                    return toolResult(decorateTransaction(data));
+                } catch (err) {
+                    return toolError(err, "Failed to fetch transaction", {
+                        resource,
+                        network: selectedNetwork.name,
+                        id,
+                        pending,
+                        raw,
+                        head: head ?? "best",
+                    });
+                }
+            }
+        },
 
-                const controller = new AbortController();
-                const timeout = setTimeout(() => controller.abort(), isMainnet ? vechainConfig.mainnet.controllerAbortTimeout : vechainConfig.testnet.controllerAbortTimeout);
+        {
+            name: "get_transaction_receipt",
+            title: "Retrieve a transaction receipt",
+            description: "Get the receipt of a VeChain transaction by its ID: whether it reverted, gas used, gas payer, fees paid and proposer reward, and for each clause the emitted events and VET transfers. Events are decoded automatically from the ABI registry (registered ABIs, built-in contracts and common signatures such as VIP-180 and NFT transfers); pass an ABI to decode other contracts. For reverted transactions the clauses are replayed to report the revert reason.",
+            inputSchema: {
+                id: z
+                    .string()
+                    .regex(vechainConfig.general.txidRegex, "Invalid transaction ID: expected 0x + 64 hex chars")
+                    .describe("Transaction ID (0x-prefixed 32-byte hex)"),
+                head: z
+                    .string()
+                    .optional()
+                    .describe("Head block ID to use; defaults to best if omitted"),
+                abi: z
+                    .union([z.string(), z.array(z.union([z.string(), z.record(z.any())])), z.record(z.any())])
+                    .optional()
+                    .describe("Optional ABI used to decode events and revert errors: JSON ABI or human-readable signatures"),
+                network: networkSchema,
+            },
+            outputSchema: receiptOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({ id, head, abi, network }: { id: string, head?: string, abi?: unknown, network?: string }) => {
+                const qs = new URLSearchParams();
+                if (head) qs.set("head", head);
+                const path = `/transactions/${encodeURIComponent(id)}/receipt${qs.toString() ? `?${qs.toString()}` : ""}`;
+                const selectedNetwork = resolveNetwork(network);
 
                 try {
-                    const res = await fetch(url, { signal: controller.signal });
+                    const parsedAbi = abi !== undefined ? parseAbiInput(abi) : undefined;
+                    const receipt = await thorestRequest<TransactionReceipt | null>(selectedNetwork, path);
 
-                    if (!res.ok) {
-                        const bodyText = await res.text().catch(() => "");
-                        throw new Error(
-                            `VeChain node responded ${res.status} ${res.statusText}${bodyText ? `: ${bodyText}` : ""
-                            }`
-                        );
+                    if (receipt == null) {
+                        throw new ToolError("NOT_FOUND", "Receipt not found (transaction unknown or still pending)");
                     }
 
-                    const data = await res.json();
+                    const summary = summarizeReceipt(receipt, parsedAbi);
 
-                    if (data == null) {
-                        return {
-                            content: [
-                                {
-                                    type: "text",
-                                    text: JSON.stringify(
-                                        {
-                                            message: "Transaction not found",
-                                            id,
-                                            pending,
-                                            raw,
-                                            head: head ?? "best",
-                                        },
-                                        null,
-                                        2
-                                    ),
-                                },
-                            ],
-                        };
+                    if (!receipt.reverted) {
+                        return toolResult(summary);
                     }
 
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: JSON.stringify(data, null, 2),
+                    const transaction = await thorestRequest<{ origin: string, gas: number, delegator: string | null, clauses: TransactionClause[] }>(
+                        selectedNetwork,
+                        `/transactions/${encodeURIComponent(id)}`
+                    );
+
+                    const parentBlock = Math.max(receipt.meta.blockNumber - 1, 0);
+                    const outputs = await thorestRequest<ClauseSimulationOutput[]>(
+                        selectedNetwork,
+                        `/accounts/*?revision=${parentBlock}`,
+                        {
+                            body: {
+                                clauses: transaction.clauses,
+                                caller: transaction.origin,
+                                gas: transaction.gas,
+                                ...(transaction.delegator ? { gasPayer: transaction.delegator } : {}),
                             },
-                        ],
-                    };
+                            revision: parentBlock,
+                        }
+                    );
+
+                    const clauseIndex = outputs.findIndex((output) => output.reverted);
+                    const failedOutput = outputs[clauseIndex];
+
+                    const failure = failedOutput
+                        ? {
+                            clauseIndex,
+                            revertReason: decodeRevertReason(failedOutput.data, parsedAbi),
+                            vmError: failedOutput.vmError || null,
+                            note: "Reason obtained by replaying the clauses on top of the parent block",
+                        }
+                        : {
+                            clauseIndex: null,
+                            revertReason: null,
+                            vmError: null,
+                            note: "Replaying the clauses on top of the parent block did not revert; the failure depends on state changed earlier in the same block",
+                        };
+
+                    return toolResult({ ...summary, failure });
                 } catch (err) {
-                    const isAbort = (err as Error)?.name === "AbortError";
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: JSON.stringify(
-                                    {
-                                        error: isAbort ? "Request timed out" : "Failed to fetch transaction",
-                                        reason: String((err as Error)?.message ?? err),
-                                        url,
-                                        id,
-                                        pending,
-                                        raw,
-                                        head: head ?? "best",
-                                    },
-                                    null,
-                                    2
-                                ),
-                            },
-                        ],
-                    };
-                } finally {
-                    clearTimeout(timeout);
+                    return toolError(err, "Failed to fetch transaction receipt", {
+                        id,
+                        head: head ?? "best",
+                    });
                 }
             }
         },
@@ -297,7 +969,7 @@ export const vechainTools: VeChainTool[] = [
         {
             name: "get_block",
             title: "Get a VeChain block",
-            description: "Retrieve information about a VeChain block by its revision (block ID, number, or keywords: best | justified | finalized).",
+            description: "Retrieve information about a VeChain block by its revision (block ID, number, or keywords: best | justified | finalized). With expanded, the clauses and events of every transaction get decoded views from the ABI registry.",
             inputSchema: {
                 revision: z
                     .union([
@@ -322,145 +994,1099 @@ export const vechainTools: VeChainTool[] = [
                     .boolean()
                     .optional()
                     .describe("Return RLP-encoded block instead of structured JSON (default: false)"),
+                network: networkSchema,
             },
-            callback: async ({ revision, expanded = false, raw = false }: { revision: z.ZodDefault<z.ZodUnion<[z.ZodEnum<[REVISION.Best, REVISION.Justified, REVISION.Finalized]>, z.ZodNumber, z.ZodString]>>, expanded?: boolean, raw?: boolean }) => {
-                const base = isMainnet ? vechainConfig.mainnet.thorestApiBaseUrl : vechainConfig.testnet.thorestApiBaseUrl;
+            outputSchema: blockOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({ revision, expanded = false, raw = false, network }: { revision: string | number, expanded?: boolean, raw?: boolean, network?: string }) => {
+                const selectedNetwork = resolveNetwork(network);
                 const path = `/blocks/${encodeURIComponent(String(revision))}`;
                 const qs = new URLSearchParams();
 
                 if (typeof expanded === "boolean") qs.set("expanded", String(expanded));
                 if (typeof raw === "boolean") qs.set("raw", String(raw));
-                const url = `${base}${path}${qs.toString() ? `?${qs.toString()}` : ""}`;
-
-                const controller = new AbortController();
-                const timeout = setTimeout(() => controller.abort(), isMainnet ? vechainConfig.mainnet.controllerAbortTimeout : vechainConfig.testnet.controllerAbortTimeout);
+                const resource = `${path}${qs.toString() ? `?${qs.toString()}` : ""}`;
 
                 try {
-                    const res = await fetch(url, { signal: controller.signal });
-
-                    if (!res.ok) {
-                        const bodyText = await res.text().catch(() => "");
-                        throw new Error(
-                            `VeChain node responded ${res.status} ${res.statusText}${bodyText ? `: ${bodyText}` : ""
-                            }`
-                        );
-                    }
-
-                    const data = await res.json();
+                    const data = await thorestRequest<Record<string, unknown> | null>(selectedNetwork, resource, { revision });
 
                     if (data == null) {
-                        return {
-                            content: [
-                                {
-                                    type: "text",
-                                    text: JSON.stringify(
-                                        {
-                                            message: "Block not found",
-                                            revision: String(revision),
-                                            expanded,
-                                            raw,
-                                        },
-                                        null,
-                                        2
-                                    ),
-                                },
-                            ],
-                        };
+                        throw new ToolError("NOT_FOUND", "Block not found");
                     }
 
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: JSON.stringify(data, null, 2),
-                            },
-                        ],
-                    };
+                    const block = expanded && Array.isArray(data.transactions)
+                        ? { ...data, transactions: data.transactions.map((transaction) => decorateTransaction(transaction as Record<string, unknown>)) }
+                        : data;
+
+                    return toolResult(block);
                 } catch (err) {
-                    const isAbort = (err as Error)?.name === "AbortError";
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: JSON.stringify(
-                                    {
-                                        error: isAbort ? "Request timed out" : "Failed to fetch VeChain block",
-                                        reason: String((err as Error)?.message ?? err),
-                                        url,
-                                    },
-                                    null,
-                                    2
-                                ),
-                            },
-                        ],
-                    };
-                } finally {
-                    clearTimeout(timeout);
+                    return toolError(err, "Failed to fetch VeChain block", {
+                        resource,
+                        network: selectedNetwork.name,
+                    });
                 }
             }
         },
 
-        // Fees
+        // Logs
 
         {
-            name: "get_priority_fee",
-            title: "Suggest a priority fee",
-            description: "Fetch a suggested priority fee for including a transaction in the next blocks from VeChain mainnet.",
-            inputSchema: {},
-            callback: async () => {
-                const base = isMainnet ? vechainConfig.mainnet.thorestApiBaseUrl : vechainConfig.testnet.thorestApiBaseUrl;
-                const url = `${base}/fees/priority`;
-
-                const controller = new AbortController();
-                const timeout = setTimeout(() => controller.abort(), isMainnet ? vechainConfig.mainnet.controllerAbortTimeout : vechainConfig.testnet.controllerAbortTimeout);
-
-                try {
-                    const res = await fetch(url, { signal: controller.signal });
-
-                    if (!res.ok) {
-                        const bodyText = await res.text().catch(() => "");
-                        throw new Error(
-                            `VeChain node responded ${res.status} ${res.statusText}${bodyText ? `: ${bodyText}` : ""
-                            }`
-                        );
+            name: "filter_events",
+            title: "Filter event logs",
+            description: "Search contract event logs (POST /logs/event) within a block or time range. Filter by emitting address and topics, choose ordering and paginate with offset/limit. Provide an ABI (JSON fragment(s) or human-readable event signatures) to decode matching events into named fields.",
+            inputSchema: {
+                unit: z
+                    .enum(["block", "time"])
+                    .optional()
+                    .describe("Unit of the range bounds: block numbers or unix timestamps (seconds). Default: block"),
+                from: z
+                    .number()
+                    .int()
+                    .nonnegative()
+                    .optional()
+                    .describe("Range start (inclusive). Defaults to genesis"),
+                to: z
+                    .number()
+                    .int()
+                    .nonnegative()
+                    .optional()
+                    .describe("Range end (inclusive). Defaults to best block"),
+                criteriaSet: z
+                    .array(
+                        z.object({
+                            address: z
+                                .string()
+                                .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                                .optional()
+                                .describe("Emitting contract address"),
+                            topic0: z.string().regex(vechainConfig.general.bytes32Regex, "Invalid topic: expected 0x + 64 hex chars").optional().describe("Event signature hash"),
+                            topic1: z.string().regex(vechainConfig.general.bytes32Regex, "Invalid topic: expected 0x + 64 hex chars").optional(),
+                            topic2: z.string().regex(vechainConfig.general.bytes32Regex, "Invalid topic: expected 0x + 64 hex chars").optional(),
+                            topic3: z.string().regex(vechainConfig.general.bytes32Regex, "Invalid topic: expected 0x + 64 hex chars").optional(),
+                            topic4: z.string().regex(vechainConfig.general.bytes32Regex, "Invalid topic: expected 0x + 64 hex chars").optional(),
+                        })
+                    )
+                    .optional()
+                    .describe("List of criteria; a log matches if it satisfies any of them. Omit to match every event"),
+                order: z
+                    .enum(["asc", "desc"])
+                    .optional()
+                    .describe("Sort order by block/log position. Default: asc"),
+                offset: z
+                    .number()
+                    .int()
+                    .nonnegative()
+                    .optional()
+                    .describe("Number of matching logs to skip. Default: 0"),
+                limit: z
+                    .number()
+                    .int()
+                    .positive()
+                    .max(vechainConfig.logs.maxLimit)
+                    .optional()
+                    .describe(`Maximum number of logs to return (max ${vechainConfig.logs.maxLimit}). Default: 100`),
+                abi: z
+                    .union([z.string(), z.array(z.union([z.string(), z.record(z.any())])), z.record(z.any())])
+                    .optional()
+                    .describe("Optional ABI used to decode events: JSON ABI (array or single fragment) or human-readable signatures such as \"event Transfer(address indexed from, address indexed to, uint256 value)\""),
+                network: networkSchema,
+            },
+            outputSchema: eventLogsOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({
+                unit = "block",
+                from,
+                to,
+                criteriaSet,
+                order = "asc",
+                offset = 0,
+                limit = 100,
+                abi,
+                network,
+            }: {
+                unit?: "block" | "time",
+                from?: number,
+                to?: number,
+                criteriaSet?: Array<{ address?: string, topic0?: string, topic1?: string, topic2?: string, topic3?: string, topic4?: string }>,
+                order?: "asc" | "desc",
+                offset?: number,
+                limit?: number,
+                abi?: unknown,
+                network?: string,
+            }) => {
+                const selectedNetwork = resolveNetwork(network);
+                const resource = "/logs/event";
+
+                const body = {
+                    range: from !== undefined || to !== undefined
+                        ? { unit, from: from ?? 0, to: to ?? Number.MAX_SAFE_INTEGER }
+                        : null,
+                    options: { offset, limit },
+                    criteriaSet: criteriaSet?.map(({ address, ...topics }) => ({
+                        ...(address ? { address: normalizeAddress(address) } : {}),
+                        ...topics,
+                    })) ?? null,
+                    order,
+                };
+
+                try {
+                    const parsedAbi = abi !== undefined ? parseAbiInput(abi) : undefined;
+
+                    const data = await thorestRequest<Array<{ address: string, topics: string[], data: string, meta: Record<string, unknown> }>>(selectedNetwork, resource, { body });
+
+                    const logs = parsedAbi
+                        ? data.map((log) => ({ ...log, decoded: decodeEventLog(parsedAbi, log) }))
+                        : data;
+
+                    return toolResult({ logs }, logs);
+                } catch (err) {
+                    return toolError(err, "Failed to filter event logs", {
+                        resource,
+                        network: selectedNetwork.name,
+                        body,
+                    });
+                }
+            }
+        },
+
+        {
+            name: "filter_transfers",
+            title: "Filter VET transfer logs",
+            description: "Search VET transfer logs (POST /logs/transfer) within a block or time range. Filter by transaction origin, sender and recipient, choose ordering and paginate with offset/limit.",
+            inputSchema: {
+                unit: z
+                    .enum(["block", "time"])
+                    .optional()
+                    .describe("Unit of the range bounds: block numbers or unix timestamps (seconds). Default: block"),
+                from: z
+                    .number()
+                    .int()
+                    .nonnegative()
+                    .optional()
+                    .describe("Range start (inclusive). Defaults to genesis"),
+                to: z
+                    .number()
+                    .int()
+                    .nonnegative()
+                    .optional()
+                    .describe("Range end (inclusive). Defaults to best block"),
+                criteriaSet: z
+                    .array(
+                        z.object({
+                            txOrigin: z
+                                .string()
+                                .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                                .optional()
+                                .describe("Address that signed the transaction"),
+                            sender: z
+                                .string()
+                                .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                                .optional()
+                                .describe("Address VET was sent from"),
+                            recipient: z
+                                .string()
+                                .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                                .optional()
+                                .describe("Address VET was sent to"),
+                        })
+                    )
+                    .optional()
+                    .describe("List of criteria; a transfer matches if it satisfies any of them. Omit to match every transfer"),
+                order: z
+                    .enum(["asc", "desc"])
+                    .optional()
+                    .describe("Sort order by block/log position. Default: asc"),
+                offset: z
+                    .number()
+                    .int()
+                    .nonnegative()
+                    .optional()
+                    .describe("Number of matching logs to skip. Default: 0"),
+                limit: z
+                    .number()
+                    .int()
+                    .positive()
+                    .max(vechainConfig.logs.maxLimit)
+                    .optional()
+                    .describe(`Maximum number of logs to return (max ${vechainConfig.logs.maxLimit}). Default: 100`),
+                network: networkSchema,
+            },
+            outputSchema: transferLogsOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({
+                unit = "block",
+                from,
+                to,
+                criteriaSet,
+                order = "asc",
+                offset = 0,
+                limit = 100,
+                network,
+            }: {
+                unit?: "block" | "time",
+                from?: number,
+                to?: number,
+                criteriaSet?: Array<{ txOrigin?: string, sender?: string, recipient?: string }>,
+                order?: "asc" | "desc",
+                offset?: number,
+                limit?: number,
+                network?: string,
+            }) => {
+                const selectedNetwork = resolveNetwork(network);
+                const resource = "/logs/transfer";
+
+                const body = {
+                    range: from !== undefined || to !== undefined
+                        ? { unit, from: from ?? 0, to: to ?? Number.MAX_SAFE_INTEGER }
+                        : null,
+                    options: { offset, limit },
+                    criteriaSet: criteriaSet?.map((criteria) => Object.fromEntries(
+                        Object.entries(criteria).map(([key, address]) => [key, normalizeAddress(address)])
+                    )) ?? null,
+                    order,
+                };
+
+                try {
+                    const data = await thorestRequest<unknown[]>(selectedNetwork, resource, { body });
+
+                    return toolResult({ transfers: data }, data);
+                } catch (err) {
+                    return toolError(err, "Failed to filter transfer logs", {
+                        resource,
+                        network: selectedNetwork.name,
+                        body,
+                    });
+                }
+            }
+        },
+
+        {
+            name: "get_address_history",
+            title: "Get the recent activity of an address",
+            description: "Timeline of an address built from the transfer and event logs: VET transfers, VTHO and VIP-180 Transfer events (amounts formatted with the token decimals), NFT transfers and other contract events that have the address as an indexed argument, merged newest first. Filter by direction, counterparty, token and block or time range, and paginate with offset/limit.",
+            inputSchema: {
+                address: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .describe("Address whose activity to list"),
+                direction: z
+                    .enum(["in", "out", "all"])
+                    .optional()
+                    .describe("Only incoming or outgoing transfers; all also includes other contract events. Default: all"),
+                counterparty: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .optional()
+                    .describe("Only activity with this address: transfers to or from it, or events it emitted"),
+                token: z
+                    .string()
+                    .optional()
+                    .describe("Only transfers of this token: VET, a token symbol (e.g. VTHO, B3TR) or a VIP-180 token address"),
+                unit: z
+                    .enum(["block", "time"])
+                    .optional()
+                    .describe("Unit of the range bounds: block numbers or unix timestamps (seconds). Default: block"),
+                from: z
+                    .number()
+                    .int()
+                    .nonnegative()
+                    .optional()
+                    .describe("Range start (inclusive). Defaults to genesis"),
+                to: z
+                    .number()
+                    .int()
+                    .nonnegative()
+                    .optional()
+                    .describe("Range end (inclusive). Defaults to best block"),
+                order: z
+                    .enum(["asc", "desc"])
+                    .optional()
+                    .describe("Sort order by block/log position. Default: desc"),
+                offset: z
+                    .number()
+                    .int()
+                    .nonnegative()
+                    .optional()
+                    .describe("Number of entries to skip, e.g. the nextOffset of the previous page. Default: 0"),
+                limit: z
+                    .number()
+                    .int()
+                    .positive()
+                    .max(vechainConfig.logs.historyMaxLimit)
+                    .optional()
+                    .describe(`Maximum number of entries to return (max ${vechainConfig.logs.historyMaxLimit}). Default: ${vechainConfig.logs.historyDefaultLimit}`),
+                network: networkSchema,
+            },
+            outputSchema: addressHistoryOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({
+                address,
+                direction = "all",
+                counterparty,
+                token,
+                unit = "block",
+                from,
+                to,
+                order = "desc",
+                offset = 0,
+                limit = vechainConfig.logs.historyDefaultLimit,
+                network,
+            }: {
+                address: string,
+                direction?: HistoryDirection,
+                counterparty?: string,
+                token?: string,
+                unit?: "block" | "time",
+                from?: number,
+                to?: number,
+                order?: "asc" | "desc",
+                offset?: number,
+                limit?: number,
+                network?: string,
+            }) => {
+                const selectedNetwork = resolveNetwork(network);
+
+                try {
+                    const history = await getAddressHistory(selectedNetwork, address, {
+                        direction,
+                        ...(counterparty ? { counterparty } : {}),
+                        ...(token ? { token } : {}),
+                        unit,
+                        ...(from !== undefined ? { from } : {}),
+                        ...(to !== undefined ? { to } : {}),
+                        order,
+                        offset,
+                        limit,
+                    });
+
+                    return toolResult(history);
+                } catch (err) {
+                    return toolError(err, "Failed to fetch address history", {
+                        address,
+                        network: selectedNetwork.name,
+                    });
+                }
+            }
+        },
+
+        // Fees
+
+        {
+            name: "get_priority_fee",
+            title: "Suggest a priority fee",
+            description: "Fetch the node's suggested priority fee (maxPriorityFeePerGas, /fees/priority) for dynamic-fee transactions on any network where dynamic fees are active. See estimate_fees for complete fee suggestions.",
+            inputSchema: {
+                network: networkSchema,
+            },
+            outputSchema: priorityFeeOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({ network }: { network?: string }) => {
+                const selectedNetwork = resolveNetwork(network);
+                const resource = "/fees/priority";
+
+                try {
+                    const data = await thorestRequest<Record<string, unknown>>(selectedNetwork, resource);
+
+                    return toolResult(data);
+                } catch (err) {
+                    return toolError(err, "Failed to fetch priority fee", {
+                        resource,
+                        network: selectedNetwork.name,
+                    });
+                }
+            }
+        },
+
+        {
+            name: "get_fee_history",
+            title: "Get the fee history",
+            description: "Fetch the base fee and gas used ratio of recent blocks (/fees/history) and, with rewardPercentiles, the priority fees paid at those percentiles in each block.",
+            inputSchema: {
+                blockCount: z
+                    .number()
+                    .int()
+                    .positive()
+                    .max(vechainConfig.fees.historyMaxBlocks)
+                    .optional()
+                    .describe(`Number of blocks, up to newestBlock (max ${vechainConfig.fees.historyMaxBlocks}). Default: ${vechainConfig.fees.estimateHistoryBlocks}`),
+                newestBlock: z
+                    .union([z.string().min(1), z.number().int().nonnegative()])
+                    .optional()
+                    .describe("Newest block of the history: best | justified | finalized | block number | block ID. Default: best"),
+                rewardPercentiles: z
+                    .array(z.number().min(0).max(100))
+                    .max(100)
+                    .optional()
+                    .describe("Ascending percentiles of the priority fees to return for each block, e.g. [25, 50, 75]"),
+                network: networkSchema,
+            },
+            outputSchema: feeHistoryOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({
+                blockCount = vechainConfig.fees.estimateHistoryBlocks,
+                newestBlock = REVISION.Best,
+                rewardPercentiles = [],
+                network,
+            }: {
+                blockCount?: number,
+                newestBlock?: string | number,
+                rewardPercentiles?: number[],
+                network?: string,
+            }) => {
+                const selectedNetwork = resolveNetwork(network);
+
+                try {
+                    if (rewardPercentiles.some((percentile, index) => index > 0 && percentile < rewardPercentiles[index - 1]!)) {
+                        throw new ToolError("INVALID_INPUT", "rewardPercentiles must be in ascending order");
                     }
 
-                    const data = await res.json();
+                    const history = await getFeeHistory(selectedNetwork, blockCount, newestBlock, rewardPercentiles);
 
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: JSON.stringify(data, null, 2),
-                            },
-                        ],
+                    return toolResult(history);
+                } catch (err) {
+                    return toolError(err, "Failed to fetch fee history", {
+                        network: selectedNetwork.name,
+                        blockCount,
+                        newestBlock,
+                    });
+                }
+            }
+        },
+
+        {
+            name: "estimate_fees",
+            title: "Estimate transaction fees",
+            description: "Estimate the gas and fees of a transaction, given as raw hex (e.g. from build_transaction) or as clauses. Returns the gas (estimated by simulating the clauses), the current base fee, maxFeePerGas / maxPriorityFeePerGas suggestions at slow, normal and fast speeds derived from the fee history, and the total VTHO cost under dynamic-fee and legacy (gasPriceCoef) pricing.",
+            inputSchema: {
+                rawTransaction: z
+                    .string()
+                    .regex(/^0x[0-9a-fA-F]+$/, "Invalid transaction: expected 0x hex")
+                    .optional()
+                    .describe("Raw transaction (signed or unsigned). Provide either rawTransaction or clauses"),
+                clauses: z
+                    .array(clauseInputSchema)
+                    .min(1)
+                    .optional()
+                    .describe("Clauses to execute, in order. Provide either rawTransaction or clauses"),
+                origin: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .optional()
+                    .describe("Address that will sign the transaction, used as caller for gas estimation. Defaults to the origin of a signed transaction, then to the agent wallet; required in read-only mode otherwise"),
+                gas: z
+                    .number()
+                    .int()
+                    .positive()
+                    .optional()
+                    .describe("Gas limit to price instead of estimating it"),
+                gasPriceCoef: z
+                    .number()
+                    .int()
+                    .min(0)
+                    .max(255)
+                    .optional()
+                    .describe("Gas price coefficient [0, 255] of the legacy pricing. Default: the coefficient of a legacy rawTransaction, else 0"),
+                network: networkSchema,
+            },
+            outputSchema: feeEstimateOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({
+                rawTransaction,
+                clauses,
+                origin,
+                gas,
+                gasPriceCoef,
+                network,
+            }: {
+                rawTransaction?: string,
+                clauses?: ClauseInput[],
+                origin?: string,
+                gas?: number,
+                gasPriceCoef?: number,
+                network?: string,
+            }) => {
+                const selectedNetwork = resolveNetwork(network);
+
+                try {
+                    if ((rawTransaction === undefined) === (clauses === undefined)) {
+                        throw new ToolError("INVALID_INPUT", "Provide either rawTransaction or clauses");
+                    }
+
+                    const transaction = rawTransaction !== undefined ? decodeRawTransaction(rawTransaction) : null;
+                    const signer = transaction?.isSigned ? transaction.origin.toString() : undefined;
+
+                    if (!origin && !signer && await isReadOnlyMode()) {
+                        throw new ToolError("INVALID_INPUT", "origin is required in read-only mode");
+                    }
+
+                    const caller = normalizeAddress(origin ?? signer ?? (await getAccount()).address);
+
+                    const estimate = await estimateFees(selectedNetwork, {
+                        clauses: transaction ? [...transaction.body.clauses] : clauses!.map(encodeClauseInput),
+                        caller,
+                        ...(gas !== undefined ? { gas } : {}),
+                        gasPriceCoef: gasPriceCoef ?? transaction?.body.gasPriceCoef ?? 0,
+                        abis: clauses?.map((clause) => clause.abi) ?? [],
+                    });
+
+                    return toolResult({ origin: caller, ...estimate });
+                } catch (err) {
+                    return toolError(err, "Failed to estimate fees", {
+                        network: selectedNetwork.name,
+                    });
+                }
+            }
+        },
+
+        // Subscriptions
+
+        {
+            name: "subscribe",
+            title: "Subscribe to live chain activity",
+            description: "Open a live subscription to the node's WebSocket feed: new blocks (block), lightweight block beats (beat2), contract events (event, filtered by address and topics) or VET transfers (transfer, filtered by origin, sender and recipient). Matches are pushed to the client as logging notifications and as resources/updated for the returned resourceUri, and the recent ones are buffered for get_subscription_matches. The subscription reconnects automatically and resumes from the last seen block.",
+            inputSchema: {
+                kind: z.enum(["block", "event", "transfer", "beat2"]).describe("Feed to subscribe to"),
+                address: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .optional()
+                    .describe("event: address of the emitting contract"),
+                topic0: z.string().regex(vechainConfig.general.bytes32Regex, "Invalid topic: expected 0x + 64 hex").optional().describe("event: topic0 (event signature hash)"),
+                topic1: z.string().regex(vechainConfig.general.bytes32Regex, "Invalid topic: expected 0x + 64 hex").optional().describe("event: topic1"),
+                topic2: z.string().regex(vechainConfig.general.bytes32Regex, "Invalid topic: expected 0x + 64 hex").optional().describe("event: topic2"),
+                topic3: z.string().regex(vechainConfig.general.bytes32Regex, "Invalid topic: expected 0x + 64 hex").optional().describe("event: topic3"),
+                topic4: z.string().regex(vechainConfig.general.bytes32Regex, "Invalid topic: expected 0x + 64 hex").optional().describe("event: topic4"),
+                txOrigin: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .optional()
+                    .describe("transfer: address that signed the transaction"),
+                sender: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .optional()
+                    .describe("transfer: address VET was sent from"),
+                recipient: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .optional()
+                    .describe("transfer: address VET was sent to"),
+                position: z
+                    .string()
+                    .regex(vechainConfig.general.bytes32Regex, "Invalid block ID: expected 0x + 64 hex")
+                    .optional()
+                    .describe("Block ID to start from, within the node's backtrace limit. Default: best block"),
+                network: networkSchema,
+            },
+            outputSchema: subscriptionOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({
+                kind,
+                address,
+                topic0,
+                topic1,
+                topic2,
+                topic3,
+                topic4,
+                txOrigin,
+                sender,
+                recipient,
+                position,
+                network,
+            }: {
+                kind: SubscriptionKind,
+                address?: string,
+                topic0?: string,
+                topic1?: string,
+                topic2?: string,
+                topic3?: string,
+                topic4?: string,
+                txOrigin?: string,
+                sender?: string,
+                recipient?: string,
+                position?: string,
+                network?: string,
+            }, context?: ToolContext) => {
+                const selectedNetwork = resolveNetwork(network);
+
+                try {
+                    const eventFilters = { addr: address, t0: topic0, t1: topic1, t2: topic2, t3: topic3, t4: topic4 };
+                    const transferFilters = { txOrigin, sender, recipient };
+                    const allowed = kind === "event" ? eventFilters : kind === "transfer" ? transferFilters : {};
+                    const ignored = Object.entries({ ...eventFilters, ...transferFilters })
+                        .filter(([key, value]) => value !== undefined && !(key in allowed))
+                        .map(([key]) => key);
+
+                    if (ignored.length > 0) {
+                        throw new ToolError("INVALID_INPUT", `Filters ${ignored.join(", ")} do not apply to ${kind} subscriptions`);
+                    }
+
+                    const filters = Object.fromEntries(
+                        Object.entries(allowed).filter(([, value]) => value !== undefined)
+                    ) as SubscriptionFilters;
+
+                    if (!context?.subscriptionOwner) {
+                        throw new ToolError("INVALID_INPUT", "Subscriptions need a session: use stdio or enable MCP_STATEFUL_SESSIONS");
+                    }
+
+                    const subscription = createSubscription(context.subscriptionOwner, kind, selectedNetwork, filters, position);
+                    const notify = context?.notify;
+
+                    if (notify) {
+                        subscription.listeners.add((sub, match) => notify(sub.resourceUri, {
+                            subscriptionId: sub.id,
+                            kind: sub.kind,
+                            network: sub.network.name,
+                            ...match,
+                        }));
+                    }
+
+                    const result = {
+                        ...subscription.describe(),
+                        notifications: Boolean(notify),
+                    };
+
+                    return toolResult(result);
+                } catch (err) {
+                    return toolError(err, "Failed to subscribe", { network: selectedNetwork.name });
+                }
+            }
+        },
+
+        {
+            name: "list_subscriptions",
+            title: "List live subscriptions",
+            description: "List the active subscriptions of this session with their kind, filters, connection status, last seen block, number of matches and reconnects.",
+            inputSchema: {},
+            outputSchema: subscriptionsOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async (_args: unknown, context?: ToolContext) => {
+                const result = listSubscriptions(context?.subscriptionOwner).map((subscription) => subscription.describe());
+
+                return toolResult({ subscriptions: result }, result);
+            }
+        },
+
+        {
+            name: "get_subscription_matches",
+            title: "Get buffered subscription matches",
+            description: `Poll the recent matches of a subscription (the last ${vechainConfig.subscriptions.bufferSize} are buffered). Pass the returned nextAfter as after to only get new matches.`,
+            inputSchema: {
+                subscriptionId: z.string().describe("ID returned by subscribe"),
+                after: z
+                    .number()
+                    .int()
+                    .nonnegative()
+                    .optional()
+                    .describe("Only return matches with a sequence number greater than this. Default: 0"),
+                limit: z
+                    .number()
+                    .int()
+                    .positive()
+                    .max(vechainConfig.subscriptions.bufferSize)
+                    .optional()
+                    .describe(`Maximum number of matches to return. Default: ${vechainConfig.subscriptions.bufferSize}`),
+            },
+            outputSchema: subscriptionMatchesOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({ subscriptionId, after = 0, limit = vechainConfig.subscriptions.bufferSize }: { subscriptionId: string, after?: number, limit?: number }, context?: ToolContext) => {
+                try {
+                    const subscription = getSubscription(subscriptionId, context?.subscriptionOwner);
+                    const matches = subscription.buffer.filter((match) => match.sequence > after).slice(0, limit);
+
+                    const result = {
+                        ...subscription.describe(),
+                        matches,
+                        nextAfter: matches.at(-1)?.sequence ?? after,
                     };
+
+                    return toolResult(result);
+                } catch (err) {
+                    return toolError(err, "Failed to get subscription matches");
+                }
+            }
+        },
+
+        {
+            name: "unsubscribe",
+            title: "Close a live subscription",
+            description: "Close a subscription: its WebSocket is closed and its buffered matches are discarded.",
+            inputSchema: {
+                subscriptionId: z.string().describe("ID returned by subscribe"),
+            },
+            outputSchema: subscriptionOutputSchema,
+            annotations: { readOnlyHint: false, destructiveHint: true },
+            callback: async ({ subscriptionId }: { subscriptionId: string }, context?: ToolContext) => {
+                try {
+                    const subscription = removeSubscription(subscriptionId, context?.subscriptionOwner);
+
+                    return toolResult({ unsubscribed: true, ...subscription.describe() });
                 } catch (err) {
-                    const isAbort = (err as Error)?.name === "AbortError";
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: JSON.stringify(
-                                    {
-                                        error: isAbort ? "Request timed out" : "Failed to fetch priority fee",
-                                        reason: String((err as Error)?.message ?? err),
-                                        url,
-                                    },
-                                    null,
-                                    2
-                                ),
+                    return toolError(err, "Failed to unsubscribe");
+                }
+            }
+        },
+
+        // Transaction lifecycle
+
+        {
+            name: "build_transaction",
+            title: "Build an unsigned transaction",
+            description: "Build an unsigned VeChain transaction ready for sign_raw_transaction. Accepts one or more clauses (to, value, data or ABI + args) and fills in chainTag (genesis block), blockRef (best block), expiration, a random nonce and gas (estimated by simulating the clauses). Supports legacy (gasPriceCoef) and dynamic-fee (maxFeePerGas / maxPriorityFeePerGas) transactions. Returns the unsigned raw hex plus a readable breakdown.",
+            inputSchema: {
+                clauses: z
+                    .array(clauseInputSchema)
+                    .min(1)
+                    .describe("Clauses to execute, in order"),
+                origin: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .optional()
+                    .describe("Address that will sign the transaction, used as caller for gas estimation. Defaults to the agent wallet; required in read-only mode"),
+                feeType: z
+                    .enum(["dynamic", "legacy"])
+                    .optional()
+                    .describe("dynamic (maxFeePerGas / maxPriorityFeePerGas) or legacy (gasPriceCoef). Default: dynamic"),
+                gasPriceCoef: z
+                    .number()
+                    .int()
+                    .min(0)
+                    .max(255)
+                    .optional()
+                    .describe("Legacy only: gas price coefficient [0, 255]. Default: 0"),
+                maxFeePerGas: z
+                    .string()
+                    .optional()
+                    .describe("Dynamic only: max fee per gas in wei. Defaults to the best block base fee plus margin, plus the priority fee"),
+                maxPriorityFeePerGas: z
+                    .string()
+                    .optional()
+                    .describe("Dynamic only: max priority fee per gas in wei. Defaults to the node's suggestion (/fees/priority)"),
+                gas: z
+                    .number()
+                    .int()
+                    .positive()
+                    .optional()
+                    .describe("Gas limit. Estimated by simulating the clauses if omitted"),
+                expiration: z
+                    .number()
+                    .int()
+                    .positive()
+                    .optional()
+                    .describe(`Number of blocks after blockRef during which the transaction can be included. Default: ${vechainConfig.transactions.defaultExpiration}`),
+                dependsOn: z
+                    .string()
+                    .regex(vechainConfig.general.txidRegex, "Invalid transaction ID: expected 0x + 64 hex chars")
+                    .optional()
+                    .describe("ID of a transaction that must be included before this one"),
+                delegated: z
+                    .boolean()
+                    .optional()
+                    .describe("Mark the transaction for VIP-191 fee delegation (a gas payer pays the fees). Default: false"),
+                network: networkSchema,
+            },
+            outputSchema: builtTransactionOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({
+                clauses,
+                origin,
+                feeType = "dynamic",
+                gasPriceCoef = 0,
+                maxFeePerGas,
+                maxPriorityFeePerGas,
+                gas,
+                expiration = vechainConfig.transactions.defaultExpiration,
+                dependsOn,
+                delegated = false,
+                network,
+            }: {
+                clauses: ClauseInput[],
+                origin?: string,
+                feeType?: "dynamic" | "legacy",
+                gasPriceCoef?: number,
+                maxFeePerGas?: string,
+                maxPriorityFeePerGas?: string,
+                gas?: number,
+                expiration?: number,
+                dependsOn?: string,
+                delegated?: boolean,
+                network?: string,
+            }) => {
+                const selectedNetwork = resolveNetwork(network);
+
+                try {
+                    const encodedClauses = clauses.map(encodeClauseInput);
+                    if (!origin && await isReadOnlyMode()) {
+                        throw new ToolError("INVALID_INPUT", "origin is required in read-only mode");
+                    }
+
+                    const caller = normalizeAddress(origin ?? (await getAccount()).address);
+
+                    const [genesis, best] = await Promise.all([
+                        thorestRequest<{ id: string }>(selectedNetwork, "/blocks/0"),
+                        thorestRequest<{ id: string, number: number, baseFeePerGas?: string }>(selectedNetwork, "/blocks/best"),
+                    ]);
+
+                    const chainTag = parseInt(genesis.id.slice(-2), 16);
+
+                    if (selectedNetwork.chainTag !== undefined && selectedNetwork.chainTag !== chainTag) {
+                        throw new Error(`Node genesis chain tag 0x${chainTag.toString(16)} does not match the configured chain tag 0x${selectedNetwork.chainTag.toString(16)} of network "${selectedNetwork.name}"`);
+                    }
+                    const blockRef = best.id.slice(0, 18);
+                    const gasEstimate = gas === undefined
+                        ? await estimateGas(selectedNetwork, encodedClauses, caller, best.id, clauses.map((clause) => clause.abi))
+                        : null;
+                    const totalGas = gas ?? gasEstimate!.total;
+
+                    let fees: { gasPriceCoef: number } | { maxFeePerGas: string, maxPriorityFeePerGas: string };
+
+                    if (feeType === "legacy") {
+                        fees = { gasPriceCoef };
+                    } else {
+                        const priorityFee = maxPriorityFeePerGas !== undefined
+                            ? parseArgument("maxPriorityFeePerGas", () => BigInt(maxPriorityFeePerGas))
+                            : BigInt((await thorestRequest<{ maxPriorityFeePerGas: string }>(selectedNetwork, "/fees/priority")).maxPriorityFeePerGas);
+
+                        if (maxFeePerGas === undefined && !best.baseFeePerGas) {
+                            throw new ToolError("INVALID_INPUT", "Dynamic fees are not active on this network; use feeType \"legacy\" or provide maxFeePerGas");
+                        }
+
+                        const maxFee = maxFeePerGas !== undefined
+                            ? parseArgument("maxFeePerGas", () => BigInt(maxFeePerGas))
+                            : BigInt(best.baseFeePerGas!) * vechainConfig.transactions.baseFeeMultiplierPercent / 100n + priorityFee;
+
+                        fees = {
+                            maxFeePerGas: `0x${maxFee.toString(16)}`,
+                            maxPriorityFeePerGas: `0x${priorityFee.toString(16)}`,
+                        };
+                    }
+
+                    const body: TransactionBody = {
+                        chainTag,
+                        blockRef,
+                        expiration,
+                        clauses: encodedClauses,
+                        gas: totalGas,
+                        dependsOn: dependsOn ?? null,
+                        nonce: Hex.random(8).toString(),
+                        ...fees,
+                        ...(delegated ? { reserved: { features: 1 } } : {}),
+                    };
+
+                    const transaction = Transaction.of(body);
+
+                    const result = {
+                        rawTransaction: Hex.of(transaction.encoded).toString(),
+                        type: transaction.transactionType,
+                        delegated: transaction.isDelegated,
+                        body,
+                        breakdown: {
+                            chainTag: `0x${chainTag.toString(16).padStart(2, "0")}`,
+                            blockRef: { value: blockRef, blockNumber: best.number },
+                            expiration: { blocks: expiration, lastValidBlock: best.number + expiration },
+                            nonce: body.nonce,
+                            origin: caller,
+                            gas: gasEstimate ?? {
+                                intrinsic: Number(Transaction.intrinsicGas(encodedClauses).wei),
+                                execution: 0,
+                                total: totalGas,
+                                source: "provided",
                             },
-                        ],
+                            fees: "maxFeePerGas" in fees
+                                ? {
+                                    maxFeePerGas: BigInt(fees.maxFeePerGas).toString(),
+                                    maxPriorityFeePerGas: BigInt(fees.maxPriorityFeePerGas).toString(),
+                                    baseFeePerGas: best.baseFeePerGas ? BigInt(best.baseFeePerGas).toString() : null,
+                                    maxCostVTHO: formatUnits(BigInt(fees.maxFeePerGas) * BigInt(totalGas), 18),
+                                }
+                                : fees,
+                            clauses: encodedClauses.map((clause, index) => ({
+                                to: clause.to ?? "contract deployment",
+                                valueVET: formatUnits(BigInt(clause.value), 18),
+                                data: clause.data,
+                                function: clauses[index]?.abi !== undefined
+                                    ? resolveAbiFunction(parseAbiInput(clauses[index]!.abi), clauses[index]!.functionName).format("string")
+                                    : null,
+                            })),
+                        },
                     };
-                } finally {
-                    clearTimeout(timeout);
+
+                    return toolResult(result);
+                } catch (err) {
+                    return toolError(err, "Failed to build transaction", {});
+                }
+            }
+        },
+
+        {
+            name: "send_transaction",
+            title: "Send a signed transaction",
+            description: "Broadcast a fully signed raw transaction (POST /transactions), for example the output of sign_raw_transaction. Returns the transaction ID; use wait_for_receipt to follow its inclusion.",
+            inputSchema: {
+                rawTransaction: z
+                    .string()
+                    .regex(/^(0x)?[0-9a-fA-F]+$/, "Invalid raw transaction: expected hex")
+                    .describe("Signed raw transaction (hex)"),
+                network: networkSchema,
+            },
+            outputSchema: sentTransactionOutputSchema,
+            callback: async ({ rawTransaction, network }: { rawTransaction: string, network?: string }) => {
+                const raw = rawTransaction.startsWith("0x") ? rawTransaction : `0x${rawTransaction}`;
+                const selectedNetwork = resolveNetwork(network);
+                let transactionId: string | null = null;
+
+                try {
+                    const transaction = parseArgument("raw transaction", () => Transaction.decode(Hex.of(raw).bytes, true));
+
+                    if (!transaction.isSigned) {
+                        throw new ToolError("INVALID_INPUT", "Transaction is not fully signed (delegated transactions need the gas payer signature too)");
+                    }
+
+                    transactionId = transaction.id.toString();
+
+                    // Not retried: after a timeout the node may already have the transaction.
+                    const { id } = await thorestRequest<{ id: string }>(selectedNetwork, "/transactions", { body: { raw }, retry: false });
+
+                    const result = {
+                        id,
+                        origin: transaction.origin.toString(),
+                        blockRef: transaction.body.blockRef,
+                        expiration: transaction.body.expiration,
+                        clauses: transaction.body.clauses.length,
+                    };
+
+                    return toolResult(result);
+                } catch (err) {
+                    return toolError(err, "Failed to send transaction", {
+                        ...(transactionId ? { id: transactionId, note: "The transaction may still have been broadcast: check it with wait_for_receipt before sending it again" } : {}),
+                    });
+                }
+            }
+        },
+
+        {
+            name: "wait_for_receipt",
+            title: "Wait for a transaction receipt",
+            description: "Poll a transaction receipt until the transaction is included (success or reverted), expires past blockRef + expiration, or the timeout passes. Returns gas used, fees paid, reward / payer breakdown and per-clause outputs.",
+            inputSchema: {
+                id: z
+                    .string()
+                    .regex(vechainConfig.general.txidRegex, "Invalid transaction ID: expected 0x + 64 hex chars")
+                    .describe("Transaction ID (0x-prefixed 32-byte hex)"),
+                timeoutMs: z
+                    .number()
+                    .int()
+                    .positive()
+                    .optional()
+                    .describe(`Maximum time to wait in milliseconds. Default: ${vechainConfig.transactions.receiptTimeout}`),
+                pollIntervalMs: z
+                    .number()
+                    .int()
+                    .positive()
+                    .optional()
+                    .describe(`Delay between polls in milliseconds. Default: ${vechainConfig.transactions.receiptPollInterval}`),
+                network: networkSchema,
+            },
+            outputSchema: waitForReceiptOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({
+                id,
+                timeoutMs = vechainConfig.transactions.receiptTimeout,
+                pollIntervalMs = vechainConfig.transactions.receiptPollInterval,
+                network,
+            }: {
+                id: string,
+                timeoutMs?: number,
+                pollIntervalMs?: number,
+                network?: string,
+            }) => {
+                const selectedNetwork = resolveNetwork(network);
+                const deadline = Date.now() + timeoutMs;
+                let lastValidBlock: number | undefined;
+
+                try {
+                    while (true) {
+                        const receipt = await thorestRequest<TransactionReceipt | null>(selectedNetwork, `/transactions/${encodeURIComponent(id)}/receipt`);
+
+                        if (receipt) {
+                            return toolResult(summarizeReceipt(receipt));
+                        }
+
+                        if (lastValidBlock === undefined) {
+                            const pendingTx = await thorestRequest<{ blockRef: string, expiration: number } | null>(
+                                selectedNetwork,
+                                `/transactions/${encodeURIComponent(id)}?pending=true`
+                            );
+
+                            if (pendingTx) {
+                                lastValidBlock = parseInt(pendingTx.blockRef.slice(2, 10), 16) + pendingTx.expiration;
+                            }
+                        }
+
+                        if (lastValidBlock !== undefined) {
+                            const best = await thorestRequest<{ number: number }>(selectedNetwork, "/blocks/best");
+
+                            if (best.number > lastValidBlock) {
+                                return toolResult({
+                                    txID: id,
+                                    status: "expired",
+                                    message: "Transaction was not included before blockRef + expiration",
+                                    lastValidBlock,
+                                    bestBlock: best.number,
+                                });
+                            }
+                        }
+
+                        if (Date.now() + pollIntervalMs > deadline) {
+                            return toolResult({
+                                txID: id,
+                                status: "timeout",
+                                message: `No receipt after ${timeoutMs} ms`,
+                                lastValidBlock: lastValidBlock ?? null,
+                            });
+                        }
+
+                        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+                    }
+                } catch (err) {
+                    return toolError(err, "Failed to wait for receipt", {
+                        id,
+                    });
                 }
             }
         },
 
         // Wallet and signature management
 
+        {
+            name: "list_accounts",
+            title: "List signing accounts",
+            description: "List the accounts the server can sign with (name, address, source and HD derivation path) and which one is the default. The account names are accepted by the account parameter of the signing tools. Secrets are never returned.",
+            inputSchema: {},
+            outputSchema: accountsOutputSchema,
+            callback: async () => {
+                try {
+                    const accounts = await getAccounts();
+                    const defaultAccount = await getDefaultAccountName();
+
+                    const result = {
+                        defaultAccount: defaultAccount ?? null,
+                        accounts: [...accounts.values()].map((account) => ({
+                            name: account.name,
+                            address: account.address,
+                            source: account.source,
+                            derivationPath: account.derivationPath ?? null,
+                            default: account.name === defaultAccount,
+                        })),
+                    };
+
+                    return toolResult(result);
+                } catch (err) {
+                    return toolError(err, "Failed to list accounts");
+                }
+            }
+        },
+
         {
             name: "create_wallet",
             title: "Create a VeChain wallet (mnemonic + keys)",
@@ -471,6 +2097,7 @@ export const vechainTools: VeChainTool[] = [
                     .optional()
                     .describe("Length of the BIP-39 mnemonic wordlist. Default: 12")
             },
+            outputSchema: walletOutputSchema,
             callback: async ({ wordlistSize = 12 }: { wordlistSize?: 12 | 15 | 18 | 21 | 24 }) => {
                 try {
                     const mnemonic = Mnemonic.of(wordlistSize);
@@ -482,36 +2109,14 @@ export const vechainTools: VeChainTool[] = [
 
                     const result = {
                         mnemonic,
-                        secretKey,
+                        secretKey: secretKeyHex,
                         secretKeyHex,
                         publicKey: publicKeyAddress
                     };
 
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: JSON.stringify(result, null, 2),
-                            },
-                        ],
-                    };
+                    return toolResult(result);
                 } catch (err) {
-                    const isAbort = (err as Error)?.name === "AbortError";
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: JSON.stringify(
-                                    {
-                                        error: isAbort ? "Request timed out" : "Failed to create wallet",
-                                        reason: String((err as Error)?.message ?? err),
-                                    },
-                                    null,
-                                    2
-                                ),
-                            },
-                        ],
-                    };
+                    return toolError(err, "Failed to create wallet");
                 }
             }
         },
@@ -519,83 +2124,345 @@ export const vechainTools: VeChainTool[] = [
         {
             name: "sign_certificate",
             title: "Sign certificate",
-            description: "Create and sign a canonical certificate. Includes purpose, payload, domain, timestamp, nonce, and expiresAt.",
+            description: "Create and sign a canonical certificate with the agent wallet (or the selected account). Returns the complete signed certificate (purpose, payload, domain, timestamp, signer, signature), which verify_certificate can check.",
             inputSchema: {
                 purpose: z.enum(["identification", "attestation", "verification"]).default("identification"),
-                payload: z.any().describe("Content to be attested (string or JSON)"),
+                payload: z.any().describe("Content to be attested: a string (stored as type \"text\"), a { type, content } object, or any JSON value (stored as type \"json\")"),
                 domain: z.string().min(1).describe("Scope or domain where it is valid"),
-                timestamp: z.number().int().positive().optional(),
+                timestamp: z.number().int().positive().optional().describe("Issue time in unix seconds. Default: now"),
+                account: accountSchema,
             },
+            outputSchema: certificateOutputSchema,
             callback: async ({
                 purpose,
                 payload,
                 domain,
                 timestamp = Math.floor(Date.now() / 1000),
+                account,
             }: {
                 purpose: "identification" | "attestation" | "verification",
                 payload: any,
                 domain: string,
-                timestamp?: number
+                timestamp?: number,
+                account?: string
             }) => {
-                const secretKey = process.env.AGENT_SECRET_KEY
+                try {
+                    const secretKeyBytes = (await getAccount(account)).secretKey
+                    const publicKey = Secp256k1.derivePublicKey(secretKeyBytes);
+                    const publicKeyAddress = Address.ofPublicKey(publicKey).toString();
 
-                if (!secretKey) {
-                    throw new Error("Missing AGENT_SECRET_KEY variable to use this tool.")
+                    const certificate = Certificate.of({
+                        purpose,
+                        payload: normalizeCertificatePayload(payload),
+                        timestamp,
+                        domain,
+                        signer: publicKeyAddress
+                    }).sign(secretKeyBytes);
+
+                    const signedCertificate = {
+                        purpose: certificate.purpose,
+                        payload: certificate.payload,
+                        domain: certificate.domain,
+                        timestamp: certificate.timestamp,
+                        signer: certificate.signer,
+                        signature: certificate.signature,
+                    };
+
+                    return toolResult(signedCertificate);
+                } catch (err) {
+                    return toolError(err, "Failed to sign certificate", {});
                 }
+            }
+        },
 
-                const secretKeyBytes = Address.of(secretKey).bytes
-                const publicKey = Secp256k1.derivePublicKey(secretKeyBytes);
-                const publicKeyAddress = Address.ofPublicKey(publicKey).toString();
+        {
+            name: "verify_certificate",
+            title: "Verify certificate",
+            description: "Verify a signed certificate (as returned by sign_certificate or a VeChain wallet): checks the signature, recovers the signer, and rejects it when the timestamp or domain is out of bounds or the signer is not the expected one.",
+            inputSchema: {
+                certificate: z
+                    .union([
+                        z.string().describe("Certificate as a JSON string"),
+                        z.object({
+                            purpose: z.string(),
+                            payload: z.object({ type: z.string(), content: z.string() }),
+                            domain: z.string(),
+                            timestamp: z.number().int().nonnegative(),
+                            signer: z.string().regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix"),
+                            signature: z.string(),
+                        }),
+                    ])
+                    .describe("Signed certificate: purpose, payload { type, content }, domain, timestamp, signer, signature"),
+                allowedDomains: z
+                    .array(z.string().min(1))
+                    .optional()
+                    .describe("Domains the certificate may be issued for (case-insensitive). Any domain if omitted"),
+                expectedSigner: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .optional()
+                    .describe("Address the certificate must be signed by"),
+                maxAgeSeconds: z
+                    .number()
+                    .int()
+                    .positive()
+                    .optional()
+                    .describe(`Maximum age of the certificate in seconds. Default: ${vechainConfig.certificates.maxAgeSeconds}`),
+                clockSkewSeconds: z
+                    .number()
+                    .int()
+                    .nonnegative()
+                    .optional()
+                    .describe(`Tolerance for timestamps in the future, in seconds. Default: ${vechainConfig.certificates.clockSkewSeconds}`),
+            },
+            outputSchema: certificateVerificationOutputSchema,
+            annotations: { readOnlyHint: true },
+            callback: async ({
+                certificate,
+                allowedDomains,
+                expectedSigner,
+                maxAgeSeconds = vechainConfig.certificates.maxAgeSeconds,
+                clockSkewSeconds = vechainConfig.certificates.clockSkewSeconds,
+            }: {
+                certificate: string | CertificateData,
+                allowedDomains?: string[],
+                expectedSigner?: string,
+                maxAgeSeconds?: number,
+                clockSkewSeconds?: number,
+            }) => {
+                try {
+                    const data: CertificateData = typeof certificate === "string"
+                        ? parseArgument("certificate", () => JSON.parse(certificate))
+                        : certificate;
 
-                const certificate = Certificate.of({
-                    purpose,
-                    payload,
-                    timestamp,
-                    domain,
-                    signer: publicKeyAddress
-                })
+                    if (!data.signature) {
+                        throw new ToolError("INVALID_INPUT", "Certificate is not signed");
+                    }
 
-                const signature = certificate.sign(secretKeyBytes);
+                    const { signature, ...unsignedData } = data;
+                    const recoveredSigner = parseArgument("certificate", () => Address.ofPublicKey(
+                        Secp256k1.recover(
+                            Blake2b256.of(Certificate.of(unsignedData).encode()).bytes,
+                            HexUInt.of(signature).bytes
+                        )
+                    ).toString().toLowerCase());
 
-                return {
-                    content: [{
-                        type: "text",
-                        text: JSON.stringify(signature, null, 2)
-                    }]
-                };
+                    const now = Math.floor(Date.now() / 1000);
+                    // Some wallets issue millisecond timestamps.
+                    const issuedAt = data.timestamp > 1e12 ? Math.floor(data.timestamp / 1000) : data.timestamp;
+
+                    const reasons: string[] = [];
+
+                    const signatureValid = recoveredSigner === normalizeAddress(data.signer);
+                    if (!signatureValid) reasons.push(`Signature was produced by ${recoveredSigner}, not by the declared signer ${normalizeAddress(data.signer)}`);
+
+                    const signerValid = !expectedSigner || recoveredSigner === normalizeAddress(expectedSigner);
+                    if (!signerValid) reasons.push(`Signer ${recoveredSigner} is not the expected signer ${normalizeAddress(expectedSigner!)}`);
+
+                    const domainValid = !allowedDomains || allowedDomains.some((domain) => domain.toLowerCase() === data.domain.toLowerCase());
+                    if (!domainValid) reasons.push(`Domain "${data.domain}" is not allowed`);
+
+                    const timestampValid = issuedAt <= now + clockSkewSeconds && now - issuedAt <= maxAgeSeconds;
+                    if (issuedAt > now + clockSkewSeconds) reasons.push("Certificate timestamp is in the future");
+                    if (now - issuedAt > maxAgeSeconds) reasons.push(`Certificate is older than ${maxAgeSeconds} seconds`);
+
+                    const result = {
+                        valid: reasons.length === 0,
+                        recoveredSigner,
+                        checks: {
+                            signature: signatureValid,
+                            signer: signerValid,
+                            domain: domainValid,
+                            timestamp: timestampValid,
+                        },
+                        issuedAt: new Date(issuedAt * 1000).toISOString(),
+                        reasons,
+                        certificate: data,
+                    };
+
+                    return toolResult(result);
+                } catch (err) {
+                    return toolError(err, "Failed to verify certificate", { valid: false });
+                }
             }
         },
 
         {
             name: "sign_raw_transaction",
             title: "Sign raw transaction",
-            description: "Decode and sign a raw transaction.",
+            description: "Decode and sign an unsigned raw transaction (for example the rawTransaction returned by build_transaction). The signing policy (allowlists, spend limits, max gas, denied selectors) is enforced first, and transactions above the confirmation threshold are shown to the user for approval when the client supports it.",
             inputSchema: {
                 rawTransaction: z.string(),
+                account: accountSchema,
             },
+            outputSchema: signedTransactionOutputSchema,
+            callback: async ({ rawTransaction, account }: { rawTransaction: string, account?: string }, context?: ToolContext) => {
+                let approval: SigningApproval | undefined;
+
+                try {
+                    const secretKeyBytes = (await getAccount(account)).secretKey
+
+                    const decodedTx = parseArgument("raw transaction", () => Transaction.decode(Hex.of(rawTransaction).bytes, false));
+
+                    approval = await enforceSigningPolicy(decodedTx.body.clauses, Number(decodedTx.body.gas), context?.confirm);
+
+                    const signedTx = decodedTx.sign(secretKeyBytes)
+                    const signedTxBytes = signedTx.encoded
+                    const signedTxHex = Hex.of(signedTxBytes).toString()
+
+                    return toolResult({ signedTransaction: signedTxHex }, signedTxHex);
+                } catch (err) {
+                    approval?.release();
+                    return toolError(err, "Failed to sign transaction", {});
+                }
+
+            }
+        },
+
+        // Fee delegation (VIP-191)
+
+        {
+            name: "delegate_transaction",
+            title: "Mark a transaction as delegated",
+            description: "Set the VIP-191 fee delegation flag on an unsigned raw transaction, so that a gas payer pays for it. The result must then be signed with sign_transaction_as_origin and sign_transaction_as_gas_payer.",
+            inputSchema: {
+                rawTransaction: z.string().describe("Unsigned raw transaction (hex), e.g. from build_transaction"),
+            },
+            outputSchema: delegatedTransactionOutputSchema,
             callback: async ({ rawTransaction }: { rawTransaction: string }) => {
-                const secretKey = process.env.AGENT_SECRET_KEY
+                try {
+                    const transaction = markAsDelegated(parseArgument("raw transaction", () => Transaction.decode(Hex.of(rawTransaction).bytes, false)));
 
-                if (!secretKey) {
-                    throw new Error("Missing AGENT_SECRET_KEY variable to use this tool.")
+                    const result = {
+                        rawTransaction: Hex.of(transaction.encoded).toString(),
+                        delegated: transaction.isDelegated,
+                        body: transaction.body,
+                    };
+
+                    return toolResult(result);
+                } catch (err) {
+                    return toolError(err, "Failed to mark transaction as delegated", {});
                 }
+            }
+        },
 
-                const secretKeyBytes = Address.of(secretKey).bytes
+        {
+            name: "sign_transaction_as_origin",
+            title: "Sign a delegated transaction as origin",
+            description: "Sign an unsigned delegated (VIP-191) raw transaction as its origin with the agent wallet, after enforcing the signing policy. Returns the origin signature to hand to the gas payer, or, when the gas payer signature is provided, the fully signed raw transaction ready for send_transaction.",
+            inputSchema: {
+                rawTransaction: z.string().describe("Unsigned delegated raw transaction (hex)"),
+                gasPayerSignature: z
+                    .string()
+                    .optional()
+                    .describe("Gas payer signature (hex) returned by sign_transaction_as_gas_payer, to produce the fully signed transaction"),
+                account: accountSchema,
+            },
+            outputSchema: originSignatureOutputSchema,
+            callback: async ({ rawTransaction, gasPayerSignature, account }: { rawTransaction: string, gasPayerSignature?: string, account?: string }, context?: ToolContext) => {
+                let approval: SigningApproval | undefined;
 
-                const decodedTxBytes = Hex.of(rawTransaction).bytes
-                const decodedTx = Transaction.decode(decodedTxBytes, true);
+                try {
+                    const signer = await getAccount(account);
 
-                const signedTx = decodedTx.sign(secretKeyBytes)
-                const signedTxBytes = signedTx.encoded
-                const signedTxHex = Hex.of(signedTxBytes).toString()
+                    const transaction = parseArgument("raw transaction", () => Transaction.decode(Hex.of(rawTransaction).bytes, false));
 
-                return {
-                    content: [{
-                        type: "text",
-                        text: JSON.stringify(signedTxHex, null, 2)
-                    }]
-                };
+                    if (!transaction.isDelegated) {
+                        throw new ToolError("INVALID_INPUT", "Transaction is not delegated: use delegate_transaction first, or sign_raw_transaction for a regular transaction");
+                    }
+
+                    approval = await enforceSigningPolicy(transaction.body.clauses, Number(transaction.body.gas), context?.confirm);
+
+                    const originSignature = Hex.of(transaction.signAsSender(signer.secretKey).signature!).toString();
+                    const origin = signer.address;
+
+                    const result = gasPayerSignature
+                        ? parseArgument("gasPayerSignature", () => {
+                            const signed = combineDelegatedSignatures(transaction, originSignature, gasPayerSignature);
+                            return {
+                                rawTransaction: Hex.of(signed.encoded).toString(),
+                                id: signed.id.toString(),
+                                origin: signed.origin.toString(),
+                                gasPayer: signed.gasPayer.toString(),
+                            };
+                        })
+                        : {
+                            origin,
+                            originSignature,
+                            rawTransaction: Hex.of(transaction.encoded).toString(),
+                        };
+
+                    return toolResult(result);
+                } catch (err) {
+                    approval?.release();
+                    return toolError(err, "Failed to sign transaction as origin", {});
+                }
+            }
+        },
+
+        {
+            name: "sign_transaction_as_gas_payer",
+            title: "Sign a delegated transaction as gas payer",
+            description: "Sponsor a delegated (VIP-191) transaction: sign it as gas payer for the given origin address. The gas payer policy (GAS_PAYER_ALLOWED_ORIGINS, which is required, GAS_PAYER_ALLOWED_TARGETS, GAS_PAYER_MAX_GAS, GAS_PAYER_MAX_FEE_PER_GAS, GAS_PAYER_MAX_GAS_PRICE_COEF) is enforced before signing. Returns the gas payer signature, and the fully signed raw transaction when the origin signature is provided.",
+            inputSchema: {
+                rawTransaction: z.string().describe("Unsigned delegated raw transaction (hex)"),
+                origin: z
+                    .string()
+                    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix")
+                    .describe("Address of the transaction origin (sender)"),
+                originSignature: z
+                    .string()
+                    .optional()
+                    .describe("Origin signature (hex), to produce the fully signed transaction"),
+                account: accountSchema.describe("Name of the account paying the gas (see list_accounts). Defaults to GAS_PAYER_SECRET_KEY, then GAS_PAYER_ACCOUNT"),
+            },
+            outputSchema: gasPayerSignatureOutputSchema,
+            callback: async ({ rawTransaction, origin, originSignature, account }: { rawTransaction: string, origin: string, originSignature?: string, account?: string }) => {
+                try {
+                    const transaction = parseArgument("raw transaction", () => Transaction.decode(Hex.of(rawTransaction).bytes, false));
+
+                    if (!transaction.isDelegated) {
+                        throw new ToolError("INVALID_INPUT", "Transaction is not delegated: use delegate_transaction first");
+                    }
 
+                    const violations = checkGasPayerPolicy(transaction, origin);
+
+                    if (violations.length > 0) {
+                        console.error(`Gas payer policy denied transaction from ${normalizeAddress(origin)}: ${violations.join("; ")}`);
+
+                        throw new ToolError("POLICY_DENIED", "Gas payer policy denied the transaction", { violations });
+                    }
+
+                    const gasPayerSecretKey = await getGasPayerSecretKey(account);
+                    const gasPayerSignature = Hex.of(
+                        transaction.signAsGasPayer(Address.of(origin), gasPayerSecretKey).signature!
+                    ).toString();
+                    const gasPayer = Address.ofPrivateKey(gasPayerSecretKey).toString();
+
+                    let signedRawTransaction: string | null = null;
+
+                    if (originSignature) {
+                        const signed = parseArgument("originSignature", () => combineDelegatedSignatures(transaction, originSignature, gasPayerSignature));
+                        const signedOrigin = parseArgument("originSignature", () => signed.origin.toString());
+
+                        if (signedOrigin.toLowerCase() !== normalizeAddress(origin)) {
+                            throw new ToolError("INVALID_INPUT", `Origin signature was produced by ${signedOrigin}, not by ${normalizeAddress(origin)}`);
+                        }
+
+                        signedRawTransaction = Hex.of(signed.encoded).toString();
+                    }
+
+                    const result = {
+                        gasPayer,
+                        gasPayerSignature,
+                        origin: normalizeAddress(origin),
+                        rawTransaction: signedRawTransaction,
+                    };
+
+                    return toolResult(result);
+                } catch (err) {
+                    return toolError(err, "Failed to sign transaction as gas payer", {});
+                }
             }
         }
-    ]
\ No newline at end of file
+    ]
@@ -1,3 +1,4 @@
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
 import type z from "zod";
 
 export enum REVISION {
@@ -6,10 +7,70 @@ export enum REVISION {
   Finalized = "finalized",
 }
 
+export interface ToolContext {
+  /** Asks the user to approve a transaction; only set when the client supports elicitation. */
+  confirm?: (message: string) => Promise<boolean>;
+  /** Pushes new data of the resource at `uri` to the client; rejects once the client is gone. */
+  notify?: (uri: string, data: unknown) => Promise<void>;
+  /** Owner of the subscriptions created by the client; unset in stateless mode, which cannot keep subscriptions. */
+  subscriptionOwner?: string;
+}
+
+export interface ToolResult {
+  /** JSON rendering of the result, for clients that do not read structuredContent. */
+  content: Array<{ type: string; text: string }>;
+  /** Result conforming to the tool's outputSchema; omitted on errors. */
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
 export interface VeChainTool {
   name: string;
   title: string;
   description: string;
   inputSchema: Record<string, z.ZodTypeAny>;
-  callback: (args: any) => Promise<{ content: Array<{ type: string; text: string }> }>;
-}
\ No newline at end of file
+  /** Shape of the structuredContent of successful results. */
+  outputSchema?: Record<string, z.ZodTypeAny>;
+  /** Tools with `readOnlyHint` are the only ones registered in read-only mode. */
+  annotations?: ToolAnnotations;
+  callback: (args: any, context?: ToolContext) => Promise<ToolResult>;
+}
+
+export interface ClauseInput {
+  to?: string | null;
+  value?: string;
+  data?: string;
+  abi?: unknown;
+  functionName?: string;
+  args?: unknown[];
+}
+
+export interface ClauseSimulationOutput {
+  data: string;
+  events: Array<{ address: string; topics: string[]; data: string }>;
+  transfers: Array<{ sender: string; recipient: string; amount: string }>;
+  gasUsed: number;
+  reverted: boolean;
+  vmError: string;
+}
+
+export interface TransactionReceipt {
+  type?: number;
+  gasUsed: number;
+  gasPayer: string;
+  paid: string;
+  reward: string;
+  reverted: boolean;
+  meta: {
+    blockID: string;
+    blockNumber: number;
+    blockTimestamp: number;
+    txID: string;
+    txOrigin: string;
+  };
+  outputs: Array<{
+    contractAddress: string | null;
+    events: Array<{ address: string; topics: string[]; data: string }>;
+    transfers: Array<{ sender: string; recipient: string; amount: string }>;
+  }>;
+}
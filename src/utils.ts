@@ -1,4 +1,8 @@
 import z, { type ZodTypeAny } from "zod";
+import { decodeErrorResult, type Abi, type AbiFunction } from "viem";
+import { ABIEvent, ABIFunction, Hex, type TransactionClause } from "@vechain/sdk-core";
+import type { ClauseInput, ToolResult } from "./types.js";
+import { parseArgument, ToolError } from "./errors.js";
 
 type JsonSchema = any;
 
@@ -156,8 +160,154 @@ export function parseToolInput(toolSchemaMap: Map<string, ZodTypeAny>, toolName:
                 const path = e.path.length ? e.path.join(".") : "<root>";
                 return `${path}: ${e.message}`;
             }).join("; ");
-            throw new Error(`Input validation failed for tool "${toolName}": ${details}`);
+            throw new ToolError("INVALID_INPUT", `Input validation failed for tool "${toolName}": ${details}`);
         }
         throw err;
     }
-}
\ No newline at end of file
+}
+export function normalizeAddress(address: string): string {
+    return address.startsWith("0x")
+        ? address.toLowerCase()
+        : `0x${address.toLowerCase()}`;
+}
+
+export function toJsonSafe(value: unknown): unknown {
+    if (typeof value === "bigint") return value.toString();
+    if (Array.isArray(value)) return value.map(toJsonSafe);
+    if (value && typeof value === "object") {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toJsonSafe(v)]));
+    }
+    return value;
+}
+
+export function parseAbiInput(abi: unknown): Abi {
+    return parseArgument("ABI", () => {
+        const items = typeof abi === "string" && /^\s*[\[{]/.test(abi) ? JSON.parse(abi) : abi;
+        const list = Array.isArray(items) ? items : [items];
+
+        return list.map((item) => {
+            if (typeof item !== "string") return item;
+            const signature = item.trim();
+            if (signature.startsWith("event ")) return new ABIEvent(signature).signature;
+            return new ABIFunction(signature.startsWith("function ") ? signature : `function ${signature}`).signature;
+        }) as Abi;
+    });
+}
+
+export function decodeEventLog(abi: Abi, log: { topics: string[], data: string }) {
+    try {
+        const decoded = ABIEvent.parseLog(abi, {
+            data: Hex.of(log.data),
+            topics: log.topics.map((topic) => Hex.of(topic)),
+        }) as { eventName: string, args: unknown };
+
+        return {
+            event: decoded.eventName,
+            args: toJsonSafe(decoded.args),
+        };
+    } catch {
+        return null;
+    }
+}
+
+export function resolveAbiFunction(abi: Abi, functionName?: string): ABIFunction {
+    const functions = abi.filter((item) => item.type === "function" && (!functionName || item.name === functionName));
+
+    if (functions.length === 0) {
+        throw new ToolError("INVALID_INPUT", functionName ? `Function "${functionName}" not found in ABI` : "No function found in ABI");
+    }
+
+    if (functions.length > 1) {
+        throw new ToolError("INVALID_INPUT", "ABI contains several matching functions; provide a single fragment or a functionName");
+    }
+
+    return new ABIFunction(functions[0] as AbiFunction);
+}
+
+export function decodeRevertReason(data: string, abi: Abi = []): string | null {
+    if (!data || data === "0x") return null;
+
+    try {
+        const { errorName, args } = decodeErrorResult({ abi, data: data as `0x${string}` });
+
+        if (errorName === "Error") return String(args?.[0] ?? "");
+        return `${errorName}(${(args ?? []).map(String).join(", ")})`;
+    } catch {
+        return null;
+    }
+}
+
+export function encodeClauseInput(clause: ClauseInput): TransactionClause {
+    return parseArgument("clause", () => {
+        const data = clause.abi !== undefined
+            ? resolveAbiFunction(parseAbiInput(clause.abi), clause.functionName).encodeData(clause.args ?? []).toString()
+            : clause.data ?? "0x";
+
+        return {
+            to: clause.to ? normalizeAddress(clause.to) : null,
+            value: `0x${BigInt(clause.value ?? 0).toString(16)}`,
+            data,
+        };
+    });
+}
+
+export function normalizeCertificatePayload(payload: unknown): { type: string, content: string } {
+    if (typeof payload === "string") return { type: "text", content: payload };
+
+    if (
+        payload &&
+        typeof payload === "object" &&
+        typeof (payload as any).type === "string" &&
+        typeof (payload as any).content === "string"
+    ) {
+        return { type: (payload as any).type, content: (payload as any).content };
+    }
+
+    return { type: "json", content: JSON.stringify(payload) };
+}
+
+/**
+ * Size-bounded cache whose entries expire after their own TTL; reads refresh
+ * the recency of an entry.
+ */
+export class LruCache<V> {
+    private readonly entries = new Map<string, { value: V, expiresAt: number }>();
+
+    constructor(private readonly maxSize: number) { }
+
+    get(key: string): V | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    set(key: string, value: V, ttl: number) {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+
+        while (this.entries.size > this.maxSize) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest === undefined) break;
+            this.entries.delete(oldest);
+        }
+    }
+}
+
+/**
+ * Successful tool result: structuredContent for the tool's outputSchema, and
+ * the same data (or `text`, when the text rendering differs) as JSON text.
+ */
+export function toolResult(structuredContent: object, text: unknown = structuredContent): ToolResult {
+    return {
+        content: [{ type: "text", text: JSON.stringify(text, null, 2) }],
+        structuredContent: structuredContent as Record<string, unknown>,
+    };
+}
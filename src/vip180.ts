@@ -0,0 +1,190 @@
+import { createTool, PluginBase, type Chain, type ToolBase } from "@goat-sdk/core";
+import type { ViemEVMWalletClient } from "@goat-sdk/wallet-viem";
+import z from "zod";
+import { formatUnits, parseUnits } from "viem";
+import { vip180Abi } from "./builtins.js";
+import { vechainConfig } from "./config.js";
+import { ToolError } from "./errors.js";
+import type { NetworkConfig } from "./networks.js";
+import { getTokens, resolveToken, type TokenInfo } from "./tokens.js";
+
+const tokenSchema = z
+    .string()
+    .describe("Token symbol from the registry (e.g. VTHO, B3TR, VOT3; see vip180_list_tokens) or token contract address");
+
+const addressSchema = z
+    .string()
+    .regex(vechainConfig.general.addressRegex, "Invalid address: expected 20-byte hex, optional 0x prefix");
+
+const amountSchema = z
+    .string()
+    .regex(/^\d+(\.\d+)?$/, "Invalid amount: expected a decimal number such as 1.5")
+    .describe("Amount in token units (e.g. 1.5), scaled by the token decimals");
+
+function hexAddress(address: string): `0x${string}` {
+    return (address.startsWith("0x") ? address : `0x${address}`) as `0x${string}`;
+}
+
+function toBaseUnits(token: TokenInfo, amount: string): bigint {
+    const [, fraction = ""] = amount.split(".");
+
+    if (fraction.length > token.decimals) {
+        throw new ToolError("INVALID_INPUT", `${token.symbol} has ${token.decimals} decimals: ${amount} is too precise`);
+    }
+
+    return parseUnits(amount, token.decimals);
+}
+
+function tokenAmount(token: TokenInfo, baseUnits: bigint) {
+    return {
+        token: token.symbol,
+        tokenAddress: token.address,
+        amount: formatUnits(baseUnits, token.decimals),
+        amountInBaseUnits: baseUnits.toString(),
+    };
+}
+
+/**
+ * GOAT plugin for VIP-180 (ERC-20 compatible) tokens on the network of the
+ * agent wallet. Tokens are given by registry symbol or address, and amounts
+ * in token units.
+ */
+export class Vip180Plugin extends PluginBase<ViemEVMWalletClient> {
+    constructor(private readonly network: NetworkConfig) {
+        super("vip180", []);
+    }
+
+    supportsChain(chain: Chain): boolean {
+        return chain.type === "evm";
+    }
+
+    getTools(walletClient: ViemEVMWalletClient): ToolBase[] {
+        const network = this.network;
+
+        const read = async (token: TokenInfo, functionName: string, args: unknown[]) => {
+            const { value } = await walletClient.read({ address: token.address, abi: vip180Abi, functionName, args });
+            return BigInt(value as bigint);
+        };
+
+        const write = (token: TokenInfo, functionName: string, args: unknown[]) =>
+            walletClient.sendTransaction({ to: token.address, abi: vip180Abi, functionName, args });
+
+        return [
+            createTool(
+                {
+                    name: "vip180_list_tokens",
+                    description: `List the known VIP-180 tokens of ${network.name} (symbol, name, address, decimals)`,
+                    parameters: z.object({}),
+                },
+                () => getTokens(network.name),
+            ),
+            createTool(
+                {
+                    name: "vip180_get_token_info",
+                    description: "Get the name, symbol, decimals and total supply of a VIP-180 token",
+                    parameters: z.object({ token: tokenSchema }),
+                },
+                async ({ token }) => {
+                    const info = await resolveToken(network, token);
+                    const totalSupply = await read(info, "totalSupply", []);
+
+                    return { ...info, totalSupply: formatUnits(totalSupply, info.decimals), totalSupplyInBaseUnits: totalSupply.toString() };
+                },
+            ),
+            createTool(
+                {
+                    name: "vip180_get_balance",
+                    description: "Get the VIP-180 token balance of an address (the agent wallet by default)",
+                    parameters: z.object({
+                        token: tokenSchema,
+                        owner: addressSchema.optional().describe("Address to check. Default: the agent wallet"),
+                    }),
+                },
+                async ({ token, owner }) => {
+                    const info = await resolveToken(network, token);
+                    const address = owner ?? walletClient.getAddress();
+                    const balance = await read(info, "balanceOf", [hexAddress(address)]);
+
+                    return { owner: address, ...tokenAmount(info, balance) };
+                },
+            ),
+            createTool(
+                {
+                    name: "vip180_get_allowance",
+                    description: "Get how many tokens a spender may transfer on behalf of an owner (the agent wallet by default)",
+                    parameters: z.object({
+                        token: tokenSchema,
+                        spender: addressSchema.describe("Spender address"),
+                        owner: addressSchema.optional().describe("Token owner. Default: the agent wallet"),
+                    }),
+                },
+                async ({ token, spender, owner }) => {
+                    const info = await resolveToken(network, token);
+                    const address = owner ?? walletClient.getAddress();
+                    const allowance = await read(info, "allowance", [hexAddress(address), hexAddress(spender)]);
+
+                    return { owner: address, spender, ...tokenAmount(info, allowance) };
+                },
+            ),
+            createTool(
+                {
+                    name: "vip180_transfer",
+                    description: "Transfer VIP-180 tokens from the agent wallet to a recipient",
+                    parameters: z.object({
+                        token: tokenSchema,
+                        to: addressSchema.describe("Recipient address"),
+                        amount: amountSchema,
+                    }),
+                },
+                async ({ token, to, amount }) => {
+                    const info = await resolveToken(network, token);
+                    const baseUnits = toBaseUnits(info, amount);
+                    const { hash } = await write(info, "transfer", [hexAddress(to), baseUnits]);
+
+                    return { hash, to, ...tokenAmount(info, baseUnits) };
+                },
+            ),
+            createTool(
+                {
+                    name: "vip180_approve",
+                    description: "Allow a spender to transfer up to an amount of VIP-180 tokens from the agent wallet (0 revokes the allowance)",
+                    parameters: z.object({
+                        token: tokenSchema,
+                        spender: addressSchema.describe("Spender address"),
+                        amount: amountSchema,
+                    }),
+                },
+                async ({ token, spender, amount }) => {
+                    const info = await resolveToken(network, token);
+                    const baseUnits = toBaseUnits(info, amount);
+                    const { hash } = await write(info, "approve", [hexAddress(spender), baseUnits]);
+
+                    return { hash, spender, ...tokenAmount(info, baseUnits) };
+                },
+            ),
+            createTool(
+                {
+                    name: "vip180_transfer_from",
+                    description: "Transfer VIP-180 tokens from an owner to a recipient, using an allowance the owner granted to the agent wallet",
+                    parameters: z.object({
+                        token: tokenSchema,
+                        from: addressSchema.describe("Token owner that approved the agent wallet"),
+                        to: addressSchema.describe("Recipient address"),
+                        amount: amountSchema,
+                    }),
+                },
+                async ({ token, from, to, amount }) => {
+                    const info = await resolveToken(network, token);
+                    const baseUnits = toBaseUnits(info, amount);
+                    const { hash } = await write(info, "transferFrom", [hexAddress(from), hexAddress(to), baseUnits]);
+
+                    return { hash, from, to, ...tokenAmount(info, baseUnits) };
+                },
+            ),
+        ];
+    }
+}
+
+export function vip180(network: NetworkConfig) {
+    return new Vip180Plugin(network);
+}
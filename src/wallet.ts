@@ -4,21 +4,27 @@ import { vechain } from "viem/chains";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import dotenv from "dotenv";
+import { Hex } from "@vechain/sdk-core";
 import { vechainConfig } from "./config.js";
+import { getAccount } from "./accounts.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-dotenv.config({ path: path.resolve(__dirname, "../.env") });
+dotenv.config({ path: path.resolve(__dirname, "../.env"), quiet: true });
 
 export const currentEnvironment = process.env.ENVIRONMENT || "";
 export const isMainnet = currentEnvironment === "MAINNET";
-export const agentSecretKey = process.env.AGENT_SECRET_KEY || "";
 export const rpcUrl = isMainnet ? vechainConfig.mainnet.rpc : vechainConfig.testnet.rpc;
 
-export const account = privateKeyToAccount(agentSecretKey as `0x${string}`);
+/**
+ * Wallet client of the default signing account, used by the GOAT tools.
+ */
+export async function getWalletClient(): Promise<WalletClient> {
+    const { secretKey } = await getAccount();
 
-export const walletClient: WalletClient = createWalletClient({
-    account,
-    transport: http(rpcUrl),
-    chain: vechain,
-});
+    return createWalletClient({
+        account: privateKeyToAccount(Hex.of(secretKey).toString() as `0x${string}`),
+        transport: http(rpcUrl),
+        chain: vechain,
+    });
+}
 